@@ -1,25 +1,100 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { 
-  JiraIssue, TeamMember, Sprint, ViewMode, GeminiAnalysisResult, JiraConfig 
+  JiraIssue, TeamMember, Sprint, ViewMode, GeminiAnalysisResult, JiraConfig, IssueLoadSummary,
+  JiraFieldCandidates, SyncProgress, Worklog, WorkflowMapping, AssignmentChange, AssignmentResult,
+  IssueMove, TimeOffEntry, CapacitySnapshot, CapacityUnit
 } from './types';
 import { 
-  INITIAL_TEAM, INITIAL_SPRINTS, MOCK_ISSUES 
+  INITIAL_TEAM, INITIAL_SPRINTS, MOCK_ISSUES, MOCK_WORKLOGS 
 } from './constants';
 import { Dashboard } from './components/Dashboard';
 import { CapacityPlanner } from './components/CapacityPlanner';
 import { TimeTrackingDashboard } from './components/TimeTrackingDashboard';
 import { ClientProfitability } from './components/ClientProfitability';
+import { CycleTimeDashboard } from './components/CycleTimeDashboard';
+import { WorkflowSettings } from './components/WorkflowSettings';
+import { TimeOffCalendar } from './components/TimeOffCalendar';
+import { WorkspaceSettings } from './components/WorkspaceSettings';
+import { PortfolioView } from './components/PortfolioView';
+import { TeamEditor } from './components/TeamEditor';
+import { SkillMatrix } from './components/SkillMatrix';
+import { EpicRoadmap } from './components/EpicRoadmap';
 import { JiraConnect } from './components/JiraConnect';
 import { AnalysisModal } from './components/AnalysisModal';
 import { Button } from './components/Button';
 import { analyzeCapacity, generateSampleData } from './services/geminiService';
-import { JiraService } from './services/jiraService';
+import { captureSprintSnapshots, setCapacityOverride } from './services/capacityService';
+import { SkillMappings } from './services/skillService';
+import { EpicTargets } from './services/roadmapService';
+import { 
+  createJiraService, DEFAULT_STORY_POINTS_FIELD, DEFAULT_SPRINT_FIELD, DEFAULT_MAX_ISSUES, applyWorkflowMapping,
+  mapWithConcurrency, BULK_CONCURRENCY
+} from './services/jiraService';
 import { 
   LayoutDashboard, Calendar, Users, Clock, DollarSign,
-  Sparkles, RefreshCw, Database, Plug, X, Plus
+  Sparkles, RefreshCw, Database, Plug, X, Plus, AlertTriangle, Timer, Settings, Briefcase, Puzzle, GanttChart
 } from 'lucide-react';
 
 const STORAGE_KEY = 'jiracap_workspace_v1';
+// API tokens and PATs are never saved with the workspace; they live in session storage until the tab closes
+const TOKEN_STORAGE_KEY = 'jiracap_tokens_v1';
+
+const loadSessionTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(TOKEN_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const withoutTokens = (configs: Record<string, JiraConfig>): Record<string, JiraConfig> =>
+  Object.fromEntries(Object.entries(configs).map(([key, config]) => [key, { ...config, apiToken: '' }]));
+
+interface WorkspaceState {
+  team: TeamMember[];
+  issues: JiraIssue[];
+  worklogs: Worklog[];
+  sprints: Sprint[];
+  projects: string[];
+  issueTotals: Record<string, IssueLoadSummary>;
+  projectConfigs: Record<string, JiraConfig>;
+  lastSyncedAt: Record<string, string>;
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  capacityUnit: CapacityUnit;
+  skillMappings: SkillMappings;
+  epicTargets: EpicTargets;
+}
+
+// The part of a planner move Jira rejected, and why
+interface MoveSyncFailure {
+  failed: IssueMove;
+  error: string;
+}
+
+// Merge fetched Jira users into the team: known members keep local edits (role, skills, capacity, archived),
+// only their Jira-owned name and avatar are refreshed. Each member remembers which projects they came from.
+const mergeTeam = (existing: TeamMember[], fetched: TeamMember[], projectKey: string): TeamMember[] => {
+  const teamMap = new Map(existing.map(m => [m.id, m]));
+  fetched.forEach(m => {
+    const current = teamMap.get(m.id);
+    const projectKeys = Array.from(new Set([...(current?.projectKeys || []), projectKey]));
+    teamMap.set(m.id, current ? { ...current, name: m.name, avatar: m.avatar, projectKeys } : { ...m, projectKeys });
+  });
+  return Array.from(teamMap.values());
+};
+
+// Drop a removed project from members' project lists and allocations
+const detachProject = (team: TeamMember[], projectKey: string): TeamMember[] =>
+  team.map(m => {
+    if (!m.projectKeys?.includes(projectKey) && m.allocations?.[projectKey] === undefined) return m;
+    const { [projectKey]: _removed, ...allocations } = m.allocations || {};
+    return {
+      ...m,
+      projectKeys: m.projectKeys?.filter(p => p !== projectKey),
+      allocations: Object.keys(allocations).length > 0 ? allocations : undefined
+    };
+  });
 
 function App() {
   // Load saved state helper
@@ -45,6 +120,9 @@ function App() {
   const [issues, setIssues] = useState<JiraIssue[]>(
     savedState?.issues || MOCK_ISSUES
   );
+  const [worklogs, setWorklogs] = useState<Worklog[]>(
+    savedState?.worklogs || (savedState ? [] : MOCK_WORKLOGS)
+  );
   const [sprints, setSprints] = useState<Sprint[]>(
     savedState?.sprints || INITIAL_SPRINTS
   );
@@ -58,6 +136,47 @@ function App() {
     savedState?.projects || []
   );
 
+  // Loaded vs. matching issue counts per project, to flag syncs truncated by maxIssues
+  const [issueTotals, setIssueTotals] = useState<Record<string, IssueLoadSummary>>(
+    savedState?.issueTotals || {}
+  );
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+
+  // Connection settings per project, including the detected story point / sprint field IDs
+  // Tokens come back from this session, or from workspaces saved before tokens were kept out of them.
+  const [projectConfigs, setProjectConfigs] = useState<Record<string, JiraConfig>>(() => {
+    const tokens = loadSessionTokens();
+    return Object.fromEntries(Object.entries((savedState?.projectConfigs || {}) as Record<string, JiraConfig>)
+      .map(([key, config]) => [key, { ...config, apiToken: tokens[key] || config.apiToken || '' }]));
+  });
+  // When each project was last synced from Jira, for incremental refreshes
+  const [lastSyncedAt, setLastSyncedAt] = useState<Record<string, string>>(
+    savedState?.lastSyncedAt || {}
+  );
+  const [refreshingProject, setRefreshingProject] = useState<string | null>(null);
+  // Member time off and team holidays, local to this workspace
+  const [timeOff, setTimeOff] = useState<TimeOffEntry[]>(
+    savedState?.timeOff || []
+  );
+  // Per-member-per-sprint capacity overrides and load history
+  const [capacitySnapshots, setCapacitySnapshots] = useState<CapacitySnapshot[]>(
+    savedState?.capacitySnapshots || []
+  );
+  // Whether capacity and load are measured in story points or estimate hours
+  const [capacityUnit, setCapacityUnit] = useState<CapacityUnit>(
+    savedState?.capacityUnit || 'points'
+  );
+  // Jira label / component -> team skill
+  const [skillMappings, setSkillMappings] = useState<SkillMappings>(
+    savedState?.skillMappings || {}
+  );
+  // Target finish date per epic key, for the roadmap
+  const [epicTargets, setEpicTargets] = useState<EpicTargets>(
+    savedState?.epicTargets || {}
+  );
+  // Set when field detection finds several candidates and the user has to pick one
+  const [fieldCandidates, setFieldCandidates] = useState<JiraFieldCandidates | null>(null);
+
   // AI State
   const [analysis, setAnalysis] = useState<GeminiAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -65,48 +184,145 @@ function App() {
   const [isGenerating, setIsGenerating] = useState(false);
 
   // Helper to persist state
-  const saveState = (data: { team: TeamMember[], issues: JiraIssue[], sprints: Sprint[], projects: string[] }) => {
+  const saveState = (data: WorkspaceState) => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      const tokens = Object.fromEntries(Object.entries(data.projectConfigs)
+        .filter(([, config]) => config.apiToken)
+        .map(([key, config]) => [key, config.apiToken]));
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, projectConfigs: withoutTokens(data.projectConfigs) }));
     } catch (e) {
       console.error('Failed to save state:', e);
     }
   };
 
-  const persistCurrentState = (
-    newTeam: TeamMember[], 
-    newIssues: JiraIssue[], 
-    newSprints: Sprint[],
-    newProjects: string[]
-  ) => {
+  // Persist the workspace, overriding whichever slices were just changed
+  const persistCurrentState = (changes: Partial<WorkspaceState>) => {
     saveState({
-      team: newTeam,
-      issues: newIssues,
-      sprints: newSprints,
-      projects: newProjects
+      team,
+      issues,
+      worklogs,
+      sprints,
+      projects,
+      issueTotals,
+      projectConfigs,
+      lastSyncedAt,
+      timeOff,
+      capacitySnapshots,
+      capacityUnit,
+      skillMappings,
+      epicTargets,
+      ...changes
+    });
+  };
+
+  // Rewrite workspaces saved with tokens in them, so the tokens leave localStorage
+  useEffect(() => {
+    const savedConfigs = Object.values((savedState?.projectConfigs || {}) as Record<string, JiraConfig>);
+    if (savedConfigs.some(config => config.apiToken)) persistCurrentState({});
+  }, []);
+
+  // Tokens aren't saved with the workspace, so ask for a missing one when Jira is next needed.
+  // Returns the configs that are ready to use; a project whose token prompt was cancelled is left out.
+  const requireTokens = (projectKeys: string[]): Record<string, JiraConfig> => {
+    const ready: Record<string, JiraConfig> = {};
+    const entered: Record<string, JiraConfig> = {};
+
+    Array.from(new Set(projectKeys)).forEach(key => {
+      const config = projectConfigs[key];
+      if (!config) return;
+      if (config.apiToken) {
+        ready[key] = config;
+        return;
+      }
+      const tokenName = config.deployment === 'datacenter' ? 'personal access token' : 'API token';
+      const token = window.prompt(`Enter the Jira ${tokenName} for ${key}.\nIt is kept for this browser session only.`)?.trim();
+      if (!token) return;
+      ready[key] = entered[key] = { ...config, apiToken: token };
     });
+
+    if (Object.keys(entered).length > 0) {
+      const nextProjectConfigs = { ...projectConfigs, ...entered };
+      setProjectConfigs(nextProjectConfigs);
+      persistCurrentState({ projectConfigs: nextProjectConfigs });
+    }
+    return ready;
   };
 
+  // Archived members stay in the workspace for history but are left out of planning
+  const planningTeam = useMemo(() => team.filter(m => !m.archived), [team]);
+
+  // Snapshot each member's load in the active sprint(s) so utilization history outlives the sprint.
+  // Demo data gets no history: it would carry over into the first real workspace.
+  useEffect(() => {
+    if (projects.length === 0) return;
+
+    const nextSnapshots = sprints
+      .filter(s => s.state === 'active')
+      .reduce((acc, sprint) => captureSprintSnapshots(acc, sprint, planningTeam, issues, timeOff, capacityUnit), capacitySnapshots);
+
+    if (nextSnapshots !== capacitySnapshots) {
+      setCapacitySnapshots(nextSnapshots);
+      persistCurrentState({ capacitySnapshots: nextSnapshots });
+    }
+  }, [projects, sprints, planningTeam, issues, timeOff, capacitySnapshots, capacityUnit]);
+
   // Jira Connection Handler
   const handleJiraConnect = async (config: JiraConfig) => {
     if (projects.includes(config.projectKey)) {
-      alert(`Project ${config.projectKey} is already connected.`);
+      alert(`Project ${config.projectKey} is already connected. Use its refresh button in the sidebar to sync new changes.`);
       return false;
     }
 
     setIsConnecting(true);
+    setSyncProgress(null);
     try {
-      const service = new JiraService(config);
-      await service.validateConnection();
+      await createJiraService(config).validateConnection();
+
+      // Story points and sprints live in site-specific custom fields
+      const detected = await createJiraService(config).discoverFields();
+      const storyPointsField = config.storyPointsField || 
+        (detected.storyPoints.length === 1 ? detected.storyPoints[0].id : undefined);
+      const sprintField = config.sprintField || 
+        (detected.sprint.length === 1 ? detected.sprint[0].id : undefined);
+
+      // Ambiguous detection: hand the candidates back to the dialog so the user can choose
+      if ((!storyPointsField && detected.storyPoints.length > 1) || (!sprintField && detected.sprint.length > 1)) {
+        setFieldCandidates(detected);
+        return false;
+      }
+
+      const fieldConfig: JiraConfig = {
+        ...config,
+        storyPointsField: storyPointsField || DEFAULT_STORY_POINTS_FIELD,
+        sprintField: sprintField || DEFAULT_SPRINT_FIELD
+      };
+
+      // Seed the status / type / priority mapping from what the project actually uses
+      const resolvedConfig: JiraConfig = {
+        ...fieldConfig,
+        workflowMapping: await createJiraService(fieldConfig).getWorkflowMapping(config.workflowMapping)
+      };
+      const service = createJiraService(resolvedConfig);
+      const syncStartedAt = new Date().toISOString();
+
+      const issueCount = await service.getIssueCount();
+      const expectedIssues = Math.min(issueCount, config.maxIssues || DEFAULT_MAX_ISSUES);
+      setSyncProgress({ label: 'Loading issues', loaded: 0, total: expectedIssues });
       
       const [fetchedTeam, fetchedSprints, fetchedIssues] = await Promise.all([
         service.getTeamMembers(),
         service.getSprints(),
-        service.getIssues()
+        service.getIssues(loaded => setSyncProgress({ label: 'Loading issues', loaded, total: expectedIssues }))
       ]);
 
+      const fetchedWorklogs = await service.getWorklogs(fetchedIssues, (loaded, total) => 
+        setSyncProgress({ label: 'Loading worklogs', loaded, total })
+      );
+
       // Tag data with project key
       const taggedIssues = fetchedIssues.map(i => ({ ...i, projectKey: config.projectKey }));
+      const taggedWorklogs = fetchedWorklogs.map(w => ({ ...w, projectKey: config.projectKey }));
       const taggedSprints = fetchedSprints.map(s => ({ ...s, projectKey: config.projectKey }));
 
       // Merge Data
@@ -114,28 +330,61 @@ function App() {
       
       const isFirstProject = projects.length === 0;
 
-      let nextTeam = isFirstProject ? [] : [...team];
       let nextIssues = isFirstProject ? [] : [...issues];
+      let nextWorklogs = isFirstProject ? [] : [...worklogs];
       let nextSprints = isFirstProject ? [] : [...sprints];
+      // Snapshots and time off recorded against the demo team and sprints don't carry over
+      const nextSnapshots = isFirstProject ? [] : capacitySnapshots;
+      const nextTimeOff = isFirstProject ? [] : timeOff;
 
       // Merge Team (deduplicate by ID)
-      const teamMap = new Map(nextTeam.map(m => [m.id, m]));
-      fetchedTeam.forEach(m => teamMap.set(m.id, m));
-      nextTeam = Array.from(teamMap.values());
+      const nextTeam = mergeTeam(isFirstProject ? [] : team, fetchedTeam, config.projectKey);
 
-      // Merge Issues and Sprints
+      // Merge Issues, Worklogs and Sprints
       nextIssues = [...nextIssues, ...taggedIssues];
+      nextWorklogs = [...nextWorklogs, ...taggedWorklogs];
       nextSprints = [...nextSprints, ...taggedSprints];
 
+      const nextIssueTotals = {
+        ...(isFirstProject ? {} : issueTotals),
+        [config.projectKey]: { loaded: fetchedIssues.length, total: Math.max(issueCount, fetchedIssues.length) }
+      };
+      const nextProjectConfigs = {
+        ...(isFirstProject ? {} : projectConfigs),
+        [config.projectKey]: resolvedConfig
+      };
+      const nextLastSyncedAt = {
+        ...(isFirstProject ? {} : lastSyncedAt),
+        [config.projectKey]: syncStartedAt
+      };
+
       setTeam(nextTeam);
       setIssues(nextIssues);
+      setWorklogs(nextWorklogs);
       setSprints(nextSprints);
       setProjects(mergedProjects);
+      setIssueTotals(nextIssueTotals);
+      setProjectConfigs(nextProjectConfigs);
+      setLastSyncedAt(nextLastSyncedAt);
+      setCapacitySnapshots(nextSnapshots);
+      setTimeOff(nextTimeOff);
       
       setIsConnecting(false);
       setShowJiraModal(false);
+      setFieldCandidates(null);
 
-      persistCurrentState(nextTeam, nextIssues, nextSprints, mergedProjects);
+      persistCurrentState({
+        team: nextTeam,
+        issues: nextIssues,
+        worklogs: nextWorklogs,
+        sprints: nextSprints,
+        projects: mergedProjects,
+        issueTotals: nextIssueTotals,
+        projectConfigs: nextProjectConfigs,
+        lastSyncedAt: nextLastSyncedAt,
+        capacitySnapshots: nextSnapshots,
+        timeOff: nextTimeOff
+      });
 
       return true;
     } catch (error) {
@@ -143,6 +392,91 @@ function App() {
       throw error;
     } finally {
       setIsConnecting(false);
+      setSyncProgress(null);
+    }
+  };
+
+  // Incremental sync: upsert issues changed since the last sync, drop deleted ones, keep local edits
+  const handleRefreshProject = async (projectKey: string) => {
+    const storedConfig = requireTokens([projectKey])[projectKey];
+    if (!storedConfig) return;
+
+    setRefreshingProject(projectKey);
+    try {
+      // Pick up statuses or types added in Jira since the last sync, keeping the user's mapping
+      const config: JiraConfig = {
+        ...storedConfig,
+        workflowMapping: await createJiraService(storedConfig).getWorkflowMapping(storedConfig.workflowMapping)
+      };
+      const service = createJiraService(config);
+      const syncStartedAt = new Date().toISOString();
+
+      const [fetchedTeam, fetchedSprints, changedIssues, currentIds, issueCount] = await Promise.all([
+        service.getTeamMembers(),
+        service.getSprints(),
+        service.getIssues(undefined, lastSyncedAt[projectKey]),
+        service.getIssueIds(),
+        service.getIssueCount()
+      ]);
+      const changedWorklogs = await service.getWorklogs(changedIssues);
+
+      const liveIds = new Set(currentIds);
+      const changedById = new Map(changedIssues.map(i => [i.id, { ...i, projectKey }]));
+
+      // Upsert changed issues by ID and remove ones no longer returned by Jira
+      const projectIssues = issues.filter(i => i.projectKey === projectKey);
+      const keptIssues = projectIssues
+        .filter(i => liveIds.has(i.id) || changedById.has(i.id))
+        .map(i => changedById.get(i.id) || i);
+      const keptIds = new Set(keptIssues.map(i => i.id));
+      const addedIssues = Array.from(changedById.values()).filter(i => !keptIds.has(i.id));
+      const refreshedIssues = [...keptIssues, ...addedIssues];
+      const refreshedIds = new Set(refreshedIssues.map(i => i.id));
+
+      const nextIssues = [...issues.filter(i => i.projectKey !== projectKey), ...refreshedIssues];
+
+      // Worklogs of changed issues are replaced wholesale; deleted issues lose theirs
+      const nextWorklogs = [
+        ...worklogs.filter(w => 
+          w.projectKey !== projectKey || (refreshedIds.has(w.issueId) && !changedById.has(w.issueId))
+        ),
+        ...changedWorklogs.map(w => ({ ...w, projectKey }))
+      ];
+
+      const nextSprints = [
+        ...sprints.filter(s => s.projectKey !== projectKey),
+        ...fetchedSprints.map(s => ({ ...s, projectKey }))
+      ];
+      const nextTeam = mergeTeam(team, fetchedTeam, projectKey);
+      const nextIssueTotals = {
+        ...issueTotals,
+        [projectKey]: { loaded: refreshedIssues.length, total: Math.max(issueCount, refreshedIssues.length) }
+      };
+      const nextLastSyncedAt = { ...lastSyncedAt, [projectKey]: syncStartedAt };
+      const nextProjectConfigs = { ...projectConfigs, [projectKey]: config };
+
+      setTeam(nextTeam);
+      setIssues(nextIssues);
+      setWorklogs(nextWorklogs);
+      setSprints(nextSprints);
+      setIssueTotals(nextIssueTotals);
+      setLastSyncedAt(nextLastSyncedAt);
+      setProjectConfigs(nextProjectConfigs);
+
+      persistCurrentState({
+        team: nextTeam,
+        issues: nextIssues,
+        worklogs: nextWorklogs,
+        sprints: nextSprints,
+        issueTotals: nextIssueTotals,
+        lastSyncedAt: nextLastSyncedAt,
+        projectConfigs: nextProjectConfigs
+      });
+    } catch (error: any) {
+      console.error("Refresh error:", error);
+      alert(`Failed to refresh ${projectKey}: ${error.message || error}`);
+    } finally {
+      setRefreshingProject(null);
     }
   };
 
@@ -154,62 +488,191 @@ function App() {
 
     const isFirstProject = projects.length === 0;
 
-    let nextTeam = isFirstProject ? [] : [...team];
     let nextIssues = isFirstProject ? [] : [...issues];
     let nextSprints = isFirstProject ? [] : [...sprints];
 
-    const teamMap = new Map(nextTeam.map(m => [m.id, m]));
-    data.team.forEach(m => teamMap.set(m.id, m));
-    nextTeam = Array.from(teamMap.values());
+    const nextTeam = mergeTeam(isFirstProject ? [] : team, data.team, manualKey);
 
     nextIssues = [...nextIssues, ...taggedIssues];
     nextSprints = [...nextSprints, ...taggedSprints];
     const nextProjects = [...projects, manualKey];
+    // Manual imports carry no worklogs; drop the mock ones when replacing mock data
+    const nextWorklogs = isFirstProject ? [] : worklogs;
+    const nextSnapshots = isFirstProject ? [] : capacitySnapshots;
+    const nextTimeOff = isFirstProject ? [] : timeOff;
 
     setTeam(nextTeam);
     setSprints(nextSprints);
     setIssues(nextIssues);
+    setWorklogs(nextWorklogs);
     setProjects(nextProjects);
+    setCapacitySnapshots(nextSnapshots);
+    setTimeOff(nextTimeOff);
     
     setShowJiraModal(false);
 
-    persistCurrentState(nextTeam, nextIssues, nextSprints, nextProjects);
+    persistCurrentState({ 
+      team: nextTeam, 
+      issues: nextIssues, 
+      worklogs: nextWorklogs, 
+      sprints: nextSprints, 
+      projects: nextProjects, 
+      capacitySnapshots: nextSnapshots, 
+      timeOff: nextTimeOff 
+    });
   };
 
   const handleRemoveProject = (projectKeyToRemove: string) => {
     const nextProjects = projects.filter(p => p !== projectKeyToRemove);
     const nextIssues = issues.filter(i => i.projectKey !== projectKeyToRemove);
+    const nextWorklogs = worklogs.filter(w => w.projectKey !== projectKeyToRemove);
     const nextSprints = sprints.filter(s => s.projectKey !== projectKeyToRemove);
+    const { [projectKeyToRemove]: _removed, ...nextIssueTotals } = issueTotals;
+    const { [projectKeyToRemove]: _removedConfig, ...nextProjectConfigs } = projectConfigs;
+    const { [projectKeyToRemove]: _removedSync, ...nextLastSyncedAt } = lastSyncedAt;
     
     setProjects(nextProjects);
     setIssues(nextIssues);
+    setWorklogs(nextWorklogs);
     setSprints(nextSprints);
+    setIssueTotals(nextIssueTotals);
+    setProjectConfigs(nextProjectConfigs);
+    setLastSyncedAt(nextLastSyncedAt);
 
     if (nextProjects.length === 0) {
       setTeam(INITIAL_TEAM);
       setIssues(MOCK_ISSUES);
+      setWorklogs(MOCK_WORKLOGS);
       setSprints(INITIAL_SPRINTS);
-      persistCurrentState(INITIAL_TEAM, MOCK_ISSUES, INITIAL_SPRINTS, []);
+      setIssueTotals({});
+      setProjectConfigs({});
+      setLastSyncedAt({});
+      setTimeOff([]);
+      setCapacitySnapshots([]);
+      setCapacityUnit('points');
+      setSkillMappings({});
+      setEpicTargets({});
       localStorage.removeItem(STORAGE_KEY);
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
     } else {
-      setTeam(team); // keep team
-      persistCurrentState(team, nextIssues, nextSprints, nextProjects);
+      // Keep the team, minus their allocation to the removed project
+      const nextTeam = detachProject(team, projectKeyToRemove);
+      setTeam(nextTeam);
+      persistCurrentState({
+        team: nextTeam,
+        issues: nextIssues,
+        worklogs: nextWorklogs,
+        sprints: nextSprints,
+        projects: nextProjects,
+        issueTotals: nextIssueTotals,
+        projectConfigs: nextProjectConfigs,
+        lastSyncedAt: nextLastSyncedAt
+      });
     }
   };
 
-  const handleCapacityChange = (memberId: string, newCapacity: number) => {
+  // Save an edited workflow mapping and re-apply it to the project's loaded issues
+  const handleWorkflowMappingChange = (projectKey: string, mapping: WorkflowMapping) => {
+    const nextProjectConfigs = {
+      ...projectConfigs,
+      [projectKey]: { ...projectConfigs[projectKey], workflowMapping: mapping }
+    };
+    const nextIssues = issues.map(i => 
+      i.projectKey === projectKey ? applyWorkflowMapping(i, mapping) : i
+    );
+
+    setProjectConfigs(nextProjectConfigs);
+    setIssues(nextIssues);
+    persistCurrentState({ projectConfigs: nextProjectConfigs, issues: nextIssues });
+  };
+
+  const handleAddTimeOff = (entries: Omit<TimeOffEntry, 'id'>[]) => {
+    const stamp = Date.now();
+    const nextTimeOff = [
+      ...timeOff,
+      ...entries.map((entry, idx) => ({ ...entry, id: `off-${stamp}-${idx}` }))
+    ];
+    setTimeOff(nextTimeOff);
+    persistCurrentState({ timeOff: nextTimeOff });
+  };
+
+  const handleRemoveTimeOff = (entryId: string) => {
+    const nextTimeOff = timeOff.filter(e => e.id !== entryId);
+    setTimeOff(nextTimeOff);
+    persistCurrentState({ timeOff: nextTimeOff });
+  };
+
+  const handleCapacityOverride = (memberId: string, sprint: Sprint, capacity: number | undefined) => {
+    const nextSnapshots = setCapacityOverride(capacitySnapshots, memberId, sprint, capacity);
+    setCapacitySnapshots(nextSnapshots);
+    persistCurrentState({ capacitySnapshots: nextSnapshots });
+  };
+
+  const handleUpdateMember = (memberId: string, changes: Partial<TeamMember>) => {
     const nextTeam = team.map(m =>
-      m.id === memberId ? { ...m, capacityPerSprint: newCapacity } : m
+      m.id === memberId ? { ...m, ...changes } : m
     );
     setTeam(nextTeam);
-    persistCurrentState(nextTeam, issues, sprints, projects);
+    persistCurrentState({ team: nextTeam });
+  };
+
+  // Members added by hand (contractors etc.) get a local id that can't clash with Jira account ids
+  // Local members split their capacity across the projects connected when they're added
+  const handleAddMember = (member: Omit<TeamMember, 'id'>) => {
+    const projectKeys = projects.length > 0 ? [...projects] : undefined;
+    const nextTeam = [...team, { ...member, id: `local-${Date.now()}`, projectKeys }];
+    setTeam(nextTeam);
+    persistCurrentState({ team: nextTeam });
+  };
+
+  // Only local members can be removed; their issues go back to unassigned
+  const handleRemoveMember = (memberId: string) => {
+    const nextTeam = team.filter(m => m.id !== memberId);
+    const nextIssues = issues.map(i => i.assigneeId === memberId ? { ...i, assigneeId: null } : i);
+    const nextTimeOff = timeOff.filter(e => e.memberId !== memberId);
+    const nextSnapshots = capacitySnapshots.filter(s => s.memberId !== memberId);
+    setTeam(nextTeam);
+    setIssues(nextIssues);
+    setTimeOff(nextTimeOff);
+    setCapacitySnapshots(nextSnapshots);
+    persistCurrentState({ team: nextTeam, issues: nextIssues, timeOff: nextTimeOff, capacitySnapshots: nextSnapshots });
+  };
+
+  // Explicit per-project split for a member; undefined falls back to an even split
+  const handleAllocationChange = (memberId: string, allocations: Record<string, number> | undefined) => {
+    const nextTeam = team.map(m =>
+      m.id === memberId ? { ...m, allocations } : m
+    );
+    setTeam(nextTeam);
+    persistCurrentState({ team: nextTeam });
+  };
+
+  // Blank skill clears the mapping so the tag falls back to matching a skill by name
+  const handleSkillMappingChange = (tag: string, skill: string | undefined) => {
+    const { [tag]: _previous, ...rest } = skillMappings;
+    const nextMappings = skill ? { ...rest, [tag]: skill } : rest;
+    setSkillMappings(nextMappings);
+    persistCurrentState({ skillMappings: nextMappings });
+  };
+
+  // Blank date clears the epic's target
+  const handleEpicTargetChange = (epicKey: string, date: string | undefined) => {
+    const { [epicKey]: _previous, ...rest } = epicTargets;
+    const nextTargets = date ? { ...rest, [epicKey]: date } : rest;
+    setEpicTargets(nextTargets);
+    persistCurrentState({ epicTargets: nextTargets });
+  };
+
+  const handleCapacityUnitChange = (unit: CapacityUnit) => {
+    setCapacityUnit(unit);
+    persistCurrentState({ capacityUnit: unit });
   };
 
   // AI Analysis Handler
   const handleAnalyze = async () => {
     setIsAnalyzing(true);
     try {
-      const result = await analyzeCapacity(team, issues, sprints);
+      const result = await analyzeCapacity(planningTeam, issues, sprints, capacityUnit);
       setAnalysis(result);
       setShowAnalysisModal(true);
     } catch (error) {
@@ -220,6 +683,162 @@ function App() {
     }
   };
 
+  // Write accepted assignee changes back to Jira using each issue's project connection.
+  // Local issues only change where Jira accepted the update.
+  const handleApplyAssignments = async (changes: AssignmentChange[]): Promise<AssignmentResult[]> => {
+    const configs = requireTokens(changes.map(c => issues.find(i => i.key === c.issueKey)?.projectKey || ''));
+    const results = await mapWithConcurrency(changes, BULK_CONCURRENCY, async (change): Promise<AssignmentResult> => {
+      const issue = issues.find(i => i.key === change.issueKey);
+      if (!issue) return { issueKey: change.issueKey, ok: false, error: 'Issue is not in this workspace.' };
+
+      if (issue.projectKey && projectConfigs[issue.projectKey] && !configs[issue.projectKey]) {
+        return { issueKey: change.issueKey, ok: false, error: 'No Jira token was entered for this project.' };
+      }
+      const config = issue.projectKey ? configs[issue.projectKey] : undefined;
+      if (!config) return { issueKey: change.issueKey, ok: false, error: 'Project is not connected to Jira (imported or sample data).' };
+
+      const assignee = team.find(m => m.id === change.assigneeId);
+      if (assignee?.isLocal) return { issueKey: change.issueKey, ok: false, error: `${assignee.name} is not a Jira user.` };
+
+      try {
+        await createJiraService(config).assignIssue(change.issueKey, change.assigneeId);
+        return { issueKey: change.issueKey, ok: true };
+      } catch (error: any) {
+        return { issueKey: change.issueKey, ok: false, error: error.message || String(error) };
+      }
+    });
+
+    const applied = new Map(
+      changes.filter((_, idx) => results[idx].ok).map(c => [c.issueKey, c.assigneeId])
+    );
+    if (applied.size > 0) {
+      const nextIssues = issues.map(i => applied.has(i.key) ? { ...i, assigneeId: applied.get(i.key) ?? null } : i);
+      setIssues(nextIssues);
+      persistCurrentState({ issues: nextIssues });
+    }
+
+    return results;
+  };
+
+  // Push a planner move to Jira. Local members (contractors without Jira accounts) can't be assigned there.
+  // Assignee and sprint are separate calls, so one can land without the other: returns the part Jira rejected, if any.
+  const syncMoveToJira = async (config: JiraConfig, issue: JiraIssue, move: IssueMove): Promise<MoveSyncFailure | null> => {
+    const service = createJiraService(config);
+    const isLocalAssignee = !!team.find(m => m.id === move.assigneeId)?.isLocal;
+    const failed: IssueMove = {};
+    const errors: string[] = [];
+
+    if (move.assigneeId !== undefined && !isLocalAssignee) {
+      try {
+        await service.assignIssue(issue.key, move.assigneeId);
+      } catch (error: any) {
+        failed.assigneeId = move.assigneeId;
+        errors.push(error.message || String(error));
+      }
+    }
+    if (move.sprintId !== undefined) {
+      try {
+        await service.moveIssuesToSprint([issue.key], move.sprintId);
+      } catch (error: any) {
+        failed.sprintId = move.sprintId;
+        errors.push(error.message || String(error));
+      }
+    }
+    return errors.length > 0 ? { failed, error: errors.join('; ') } : null;
+  };
+
+  const applyMove = (issue: JiraIssue, move: IssueMove): JiraIssue => ({
+    ...issue,
+    ...(move.assigneeId !== undefined ? { assigneeId: move.assigneeId } : {}),
+    ...(move.sprintId !== undefined ? { sprintId: move.sprintId ?? undefined } : {})
+  });
+
+  // Put back only the fields of a move that Jira rejected
+  const revertMove = (issue: JiraIssue, original: JiraIssue, failed: IssueMove): JiraIssue => ({
+    ...issue,
+    ...(failed.assigneeId !== undefined ? { assigneeId: original.assigneeId } : {}),
+    ...(failed.sprintId !== undefined ? { sprintId: original.sprintId } : {})
+  });
+
+  // e.g. "PROJ-1: sprint change undone (error); assignee change kept"
+  const describeSyncFailure = (issue: JiraIssue, move: IssueMove, { failed, error }: MoveSyncFailure) => {
+    const fields = (m: IssueMove) => [m.assigneeId !== undefined && 'assignee', m.sprintId !== undefined && 'sprint']
+      .filter(Boolean).join(' and ');
+    const kept = fields({
+      assigneeId: failed.assigneeId === undefined ? move.assigneeId : undefined,
+      sprintId: failed.sprintId === undefined ? move.sprintId : undefined
+    });
+    return `${issue.key}: ${fields(failed)} change undone (${error})${kept ? `; ${kept} change kept` : ''}`;
+  };
+
+  // Planner drag-and-drop: apply the move locally right away, then optionally push it to Jira.
+  // Whatever part of the sync fails is put back; the part Jira accepted stays.
+  const handleMoveIssue = async (issueId: string, move: IssueMove, syncToJira: boolean) => {
+    const original = issues.find(i => i.id === issueId);
+    if (!original) return;
+
+    const moved = applyMove(original, move);
+    const nextIssues = issues.map(i => i.id === issueId ? moved : i);
+    setIssues(nextIssues);
+    persistCurrentState({ issues: nextIssues });
+
+    if (!syncToJira) return;
+
+    const config = original.projectKey ? requireTokens([original.projectKey])[original.projectKey] : undefined;
+    if (!config) {
+      alert(original.projectKey && projectConfigs[original.projectKey]
+        ? `No Jira token was entered for ${original.projectKey}, so the change was only made locally.`
+        : `${original.key} is not from a connected Jira project, so the change was only made locally.`);
+      return;
+    }
+
+    const failure = await syncMoveToJira(config, original, move);
+    if (!failure) return;
+
+    console.error('Jira sync failed:', failure.error);
+    setIssues(current => {
+      const reverted = current.map(i => i.id === issueId ? revertMove(i, original, failure.failed) : i);
+      persistCurrentState({ issues: reverted });
+      return reverted;
+    });
+    alert(`Failed to sync to Jira. ${describeSyncFailure(original, move, failure)}`);
+  };
+
+  // Several planner moves at once (auto-balancer). Parts of a move whose Jira sync fails are put back.
+  const handleApplyMoves = async (moves: { issueId: string; move: IssueMove }[], syncToJira: boolean) => {
+    const originals = new Map(issues.map(i => [i.id, i]));
+    const moveById = new Map(moves.map(m => [m.issueId, m.move]));
+    const nextIssues = issues.map(i => moveById.has(i.id) ? applyMove(i, moveById.get(i.id)!) : i);
+    setIssues(nextIssues);
+    persistCurrentState({ issues: nextIssues });
+
+    if (!syncToJira) return;
+
+    const configs = requireTokens(moves.map(m => originals.get(m.issueId)?.projectKey || ''));
+    const results = await mapWithConcurrency(moves, BULK_CONCURRENCY, async ({ issueId, move }) => {
+      const original = originals.get(issueId)!;
+      const config = original.projectKey ? configs[original.projectKey] : undefined;
+      // Imported and sample issues, and projects whose token prompt was cancelled, only change locally
+      return config ? syncMoveToJira(config, original, move) : null;
+    });
+
+    const failures = new Map(moves.flatMap(({ issueId }, idx) => {
+      const failure = results[idx];
+      return failure ? [[issueId, failure] as const] : [];
+    }));
+    if (failures.size === 0) return;
+
+    setIssues(current => {
+      const reverted = current.map(i => failures.has(i.id) ? revertMove(i, originals.get(i.id)!, failures.get(i.id)!.failed) : i);
+      persistCurrentState({ issues: reverted });
+      return reverted;
+    });
+    const details = moves
+      .filter(m => failures.has(m.issueId))
+      .map(m => describeSyncFailure(originals.get(m.issueId)!, m.move, failures.get(m.issueId)!));
+    alert(`${failures.size} of ${moves.length} changes could not be fully synced to Jira:\n${details.join('\n')}`);
+  };
+
   // Generate Sample Data Handler
   const handleGenerateData = async () => {
     setIsGenerating(true);
@@ -228,8 +847,18 @@ function App() {
       
       setTeam(data.team);
       setIssues(data.issues);
+      setWorklogs([]);
       setProjects([]); 
+      setIssueTotals({});
+      setProjectConfigs({});
+      setLastSyncedAt({});
+      setTimeOff([]);
+      setCapacitySnapshots([]);
+      setCapacityUnit('points');
+      setSkillMappings({});
+      setEpicTargets({});
       localStorage.removeItem(STORAGE_KEY);
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
       
       alert("Sample data generated successfully!");
     } catch (error) {
@@ -243,45 +872,109 @@ function App() {
   const renderContent = () => {
     switch (view) {
       case ViewMode.DASHBOARD:
-        return <Dashboard issues={issues} team={team} sprints={sprints} />;
+        return (
+          <Dashboard 
+            issues={issues} 
+            team={planningTeam} 
+            sprints={sprints} 
+            timeOff={timeOff} 
+            capacitySnapshots={capacitySnapshots} 
+            unit={capacityUnit} 
+          />
+        );
       case ViewMode.PLANNER:
-        return <CapacityPlanner team={team} issues={issues} sprints={sprints} />;
+        return (
+          <CapacityPlanner 
+            team={planningTeam} 
+            issues={issues} 
+            sprints={sprints} 
+            timeOff={timeOff} 
+            capacitySnapshots={capacitySnapshots} 
+            unit={capacityUnit} 
+            skillMappings={skillMappings} 
+            onMoveIssue={handleMoveIssue} 
+            onApplyMoves={handleApplyMoves} 
+          />
+        );
       case ViewMode.TIME_TRACKING:
-        return <TimeTrackingDashboard issues={issues} team={team} />;
+        return <TimeTrackingDashboard issues={issues} worklogs={worklogs} team={team} />;
       case ViewMode.CLIENT_PROFITABILITY:
-        return <ClientProfitability issues={issues} />;
+        return <ClientProfitability issues={issues} worklogs={worklogs} />;
+      case ViewMode.CYCLE_TIME:
+        return <CycleTimeDashboard issues={issues} team={team} />;
+      case ViewMode.PORTFOLIO:
+        return (
+          <PortfolioView 
+            projects={projects} 
+            team={planningTeam} 
+            issues={issues} 
+            sprints={sprints} 
+            timeOff={timeOff} 
+            capacitySnapshots={capacitySnapshots} 
+            unit={capacityUnit} 
+            onAllocationChange={handleAllocationChange} 
+          />
+        );
+      case ViewMode.SKILLS:
+        return (
+          <SkillMatrix 
+            team={planningTeam} 
+            issues={issues} 
+            sprints={sprints} 
+            timeOff={timeOff} 
+            capacitySnapshots={capacitySnapshots} 
+            unit={capacityUnit} 
+            skillMappings={skillMappings} 
+            onMappingChange={handleSkillMappingChange} 
+          />
+        );
+      case ViewMode.ROADMAP:
+        return (
+          <EpicRoadmap 
+            team={planningTeam} 
+            issues={issues} 
+            sprints={sprints} 
+            timeOff={timeOff} 
+            capacitySnapshots={capacitySnapshots} 
+            unit={capacityUnit} 
+            targets={epicTargets} 
+            onTargetChange={handleEpicTargetChange} 
+          />
+        );
+      case ViewMode.SETTINGS:
+        return (
+          <div className="space-y-6">
+            <WorkspaceSettings 
+              capacityUnit={capacityUnit} 
+              onCapacityUnitChange={handleCapacityUnitChange} 
+            />
+            <WorkflowSettings 
+              projects={projects} 
+              projectConfigs={projectConfigs} 
+              onMappingChange={handleWorkflowMappingChange} 
+            />
+          </div>
+        );
       case ViewMode.TEAM:
         return (
-          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h2 className="text-xl font-bold mb-4">Team Members</h2>
-            {team.length === 0 ? (
-              <div className="text-slate-500 text-center py-10">
-                No team members found.
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {team.map(member => (
-                  <div key={member.id} className="flex items-center gap-4 p-4 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">
-                    <img src={member.avatar || `https://ui-avatars.com/api/?name=${member.name}`} alt={member.name} className="w-12 h-12 rounded-full" />
-                    <div className="flex-1">
-                      <div className="font-semibold text-slate-900">{member.name}</div>
-                      <div className="text-sm text-slate-500">{member.role}</div>
-                      <div className="flex items-center gap-2 mt-2">
-                        <span className="text-xs text-slate-500">Capacity:</span>
-                        <input
-                          type="number"
-                          min="0"
-                          className="w-16 px-2 py-1 text-xs border rounded bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-                          value={member.capacityPerSprint}
-                          onChange={(e) => handleCapacityChange(member.id, parseInt(e.target.value) || 0)}
-                        />
-                        <span className="text-xs text-slate-400">pts</span>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
+          <div className="space-y-6">
+            <TeamEditor 
+              team={team} 
+              unit={capacityUnit} 
+              onAdd={handleAddMember} 
+              onUpdate={handleUpdateMember} 
+              onRemove={handleRemoveMember} 
+            />
+            <TimeOffCalendar
+              team={planningTeam}
+              sprints={sprints}
+              timeOff={timeOff}
+              capacitySnapshots={capacitySnapshots}
+              unit={capacityUnit}
+              onAdd={handleAddTimeOff}
+              onRemove={handleRemoveTimeOff}
+              onCapacityOverride={handleCapacityOverride}
+            />
           </div>
         );
       default:
@@ -290,6 +983,7 @@ function App() {
   };
 
   const isConnected = projects.length > 0;
+  const truncatedProjects = projects.filter(p => issueTotals[p] && issueTotals[p].loaded < issueTotals[p].total);
 
   return (
     <div className="min-h-screen flex bg-slate-50 text-slate-900 font-sans">
@@ -317,6 +1011,27 @@ function App() {
             <Calendar size={18} />
             Capacity Planner
           </button>
+          <button 
+            onClick={() => setView(ViewMode.PORTFOLIO)}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.PORTFOLIO ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Briefcase size={18} />
+            Portfolio
+          </button>
+          <button 
+            onClick={() => setView(ViewMode.SKILLS)}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.SKILLS ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Puzzle size={18} />
+            Skills
+          </button>
+          <button 
+            onClick={() => setView(ViewMode.ROADMAP)}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.ROADMAP ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <GanttChart size={18} />
+            Roadmap
+          </button>
           <button 
             onClick={() => setView(ViewMode.TIME_TRACKING)}
             className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.TIME_TRACKING ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
@@ -331,6 +1046,13 @@ function App() {
             <DollarSign size={18} />
             Client Profitability
           </button>
+          <button 
+            onClick={() => setView(ViewMode.CYCLE_TIME)}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.CYCLE_TIME ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Timer size={18} />
+            Cycle Time
+          </button>
           <button 
             onClick={() => setView(ViewMode.TEAM)}
             className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.TEAM ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
@@ -338,6 +1060,13 @@ function App() {
             <Users size={18} />
             Team
           </button>
+          <button 
+            onClick={() => setView(ViewMode.SETTINGS)}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors ${view === ViewMode.SETTINGS ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Settings size={18} />
+            Settings
+          </button>
         </nav>
 
         <div className="p-4 border-t border-slate-100 space-y-3">
@@ -373,15 +1102,32 @@ function App() {
                  <div key={projKey} className="bg-white p-2 rounded-lg border border-green-200 shadow-sm flex items-center justify-between group">
                    <div className="flex items-center gap-2 overflow-hidden">
                       <div className="w-2 h-2 bg-green-500 rounded-full shrink-0"></div>
-                      <span className="text-xs font-medium text-slate-900 truncate" title={projKey}>{projKey}</span>
+                      <span 
+                        className="text-xs font-medium text-slate-900 truncate" 
+                        title={lastSyncedAt[projKey] ? `${projKey} · synced ${new Date(lastSyncedAt[projKey]).toLocaleString()}` : projKey}
+                      >
+                        {projKey}
+                      </span>
+                   </div>
+                   <div className="flex items-center shrink-0">
+                     {projectConfigs[projKey] && (
+                       <button 
+                          onClick={() => handleRefreshProject(projKey)}
+                          disabled={refreshingProject !== null}
+                          className={`text-slate-300 hover:text-blue-600 transition-all p-1 disabled:cursor-not-allowed ${refreshingProject === projKey ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                          title="Refresh Project"
+                       >
+                         <RefreshCw size={14} className={refreshingProject === projKey ? 'animate-spin text-blue-600' : ''} />
+                       </button>
+                     )}
+                     <button 
+                        onClick={() => handleRemoveProject(projKey)}
+                        className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
+                        title="Remove Project"
+                     >
+                       <X size={14} />
+                     </button>
                    </div>
-                   <button 
-                      onClick={() => handleRemoveProject(projKey)}
-                      className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
-                      title="Remove Project"
-                   >
-                     <X size={14} />
-                   </button>
                  </div>
                ))}
                
@@ -404,15 +1150,29 @@ function App() {
             <h1 className="text-2xl font-bold text-slate-900">
               {view === ViewMode.DASHBOARD && 'Dashboard Overview'}
               {view === ViewMode.PLANNER && 'Capacity Planning'}
+              {view === ViewMode.PORTFOLIO && 'Project Portfolio'}
+              {view === ViewMode.SKILLS && 'Skill Coverage'}
+              {view === ViewMode.ROADMAP && 'Epic Roadmap'}
               {view === ViewMode.TIME_TRACKING && 'Time Tracking Analysis'}
               {view === ViewMode.CLIENT_PROFITABILITY && 'Client Profitability Matrix'}
+              {view === ViewMode.CYCLE_TIME && 'Cycle & Lead Time'}
               {view === ViewMode.TEAM && 'Team Management'}
+              {view === ViewMode.SETTINGS && 'Workspace Settings'}
             </h1>
             <p className="text-slate-500 text-sm mt-1">
               {isConnected 
                 ? `Analyzing ${projects.length} project${projects.length > 1 ? 's' : ''} (${issues.length} issues)` 
                 : 'Viewing local mock data'}
             </p>
+            {truncatedProjects.length > 0 && (
+              <div className="mt-2 inline-flex items-center gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 px-2.5 py-1 rounded-lg">
+                <AlertTriangle size={14} className="shrink-0" />
+                <span>
+                  {truncatedProjects.map(p => `${p}: ${issueTotals[p].loaded} of ${issueTotals[p].total} issues loaded`).join(' · ')}
+                  {' '}(issue limit reached)
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
@@ -447,9 +1207,11 @@ function App() {
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
           <JiraConnect 
             isLoading={isConnecting} 
+            progress={syncProgress}
+            fieldCandidates={fieldCandidates}
             onConnect={handleJiraConnect} 
             onManualImport={handleManualImport}
-            onCancel={() => setShowJiraModal(false)} 
+            onCancel={() => { setShowJiraModal(false); setFieldCandidates(null); }} 
           />
         </div>
       )}
@@ -458,6 +1220,9 @@ function App() {
         isOpen={showAnalysisModal} 
         onClose={() => setShowAnalysisModal(false)} 
         result={analysis} 
+        issues={issues}
+        team={planningTeam}
+        onApply={handleApplyAssignments}
       />
     </div>
   );
@@ -1,17 +1,83 @@
-import React from 'react';
-import { GeminiAnalysisResult } from '../types';
-import { X, AlertTriangle, Lightbulb, BrainCircuit, CheckCircle2 } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { GeminiAnalysisResult, JiraIssue, TeamMember, AssignmentChange, AssignmentResult } from '../types';
+import { X, AlertTriangle, Lightbulb, BrainCircuit, CheckCircle2, Check, Ban, ArrowRight, XCircle, Upload } from 'lucide-react';
 import { Button } from './Button';
 
 interface AnalysisModalProps {
   isOpen: boolean;
   onClose: () => void;
   result: GeminiAnalysisResult | null;
+  issues: JiraIssue[];
+  team: TeamMember[];
+  onApply: (changes: AssignmentChange[]) => Promise<AssignmentResult[]>;
 }
 
-export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, result }) => {
+type Decision = 'accepted' | 'rejected';
+
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, result, issues, team, onApply }) => {
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [results, setResults] = useState<Record<string, AssignmentResult>>({});
+  const [showDiff, setShowDiff] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Start fresh for every new analysis
+  useEffect(() => {
+    setDecisions({});
+    setResults({});
+    setShowDiff(false);
+  }, [result]);
+
+  const memberName = (id: string | null) => 
+    id ? team.find(m => m.id === id)?.name || id : 'Unassigned';
+
+  // Resolve each suggestion against the workspace; only known issues and members can be applied
+  const rows = useMemo(() => (result?.suggestedAllocations || []).map(alloc => {
+    const issue = issues.find(i => i.key === alloc.issueKey);
+    const member = team.find(m => m.id === alloc.suggestedAssigneeId);
+    let note: string | undefined;
+    if (!issue) note = 'Issue not found';
+    else if (!member) note = 'Unknown team member';
+    else if (issue.assigneeId === member.id) note = 'Already assigned';
+    return { alloc, issue, member, note };
+  }), [result, issues, team]);
+
+  const pendingChanges = rows.filter(r => 
+    !r.note && decisions[r.alloc.issueKey] === 'accepted' && !results[r.alloc.issueKey]?.ok
+  );
+
+  // Clicking the active decision again clears it
+  const setDecision = (issueKey: string, decision: Decision) => {
+    setDecisions(prev => {
+      const { [issueKey]: current, ...rest } = prev;
+      return current === decision ? rest : { ...rest, [issueKey]: decision };
+    });
+  };
+
+  const acceptAll = () => {
+    const next: Record<string, Decision> = { ...decisions };
+    rows.filter(r => !r.note).forEach(r => { next[r.alloc.issueKey] = 'accepted'; });
+    setDecisions(next);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const applied = await onApply(pendingChanges.map(r => ({ 
+        issueKey: r.alloc.issueKey, 
+        assigneeId: r.alloc.suggestedAssigneeId 
+      })));
+      setResults(prev => ({ ...prev, ...Object.fromEntries(applied.map(a => [a.issueKey, a])) }));
+      setShowDiff(false);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
   if (!isOpen || !result) return null;
 
+  const appliedResults = Object.values(results);
+  const failedCount = appliedResults.filter(r => !r.ok).length;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -74,12 +140,17 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, r
           </div>
 
           {/* Suggested Allocations */}
-          {result.suggestedAllocations && result.suggestedAllocations.length > 0 && (
+          {rows.length > 0 && (
             <div>
-              <h3 className="flex items-center gap-2 text-green-600 font-semibold mb-3">
-                <CheckCircle2 size={18} />
-                Suggested Allocations
-              </h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="flex items-center gap-2 text-green-600 font-semibold">
+                  <CheckCircle2 size={18} />
+                  Suggested Allocations
+                </h3>
+                <Button size="sm" variant="outline" onClick={acceptAll} disabled={isApplying}>
+                  Accept All
+                </Button>
+              </div>
               <div className="border border-slate-200 rounded-lg overflow-hidden">
                 <table className="w-full text-sm text-left">
                   <thead className="bg-slate-50 text-slate-500 font-medium">
@@ -87,26 +158,118 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, r
                       <th className="p-3">Issue Key</th>
                       <th className="p-3">Suggested Assignee</th>
                       <th className="p-3">Reasoning</th>
+                      <th className="p-3 text-right">Decision</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
-                    {result.suggestedAllocations.map((alloc, idx) => (
-                      <tr key={idx} className="hover:bg-slate-50">
-                        <td className="p-3 font-mono text-slate-600">{alloc.issueKey}</td>
-                        <td className="p-3 font-medium text-slate-900">{alloc.suggestedAssigneeId}</td>
-                        <td className="p-3 text-slate-600">{alloc.reason}</td>
-                      </tr>
-                    ))}
+                    {rows.map(({ alloc, member, note }, idx) => {
+                      const decision = decisions[alloc.issueKey];
+                      const outcome = results[alloc.issueKey];
+                      return (
+                        <tr key={idx} className={`hover:bg-slate-50 ${decision === 'rejected' ? 'opacity-50' : ''}`}>
+                          <td className="p-3 font-mono text-slate-600">{alloc.issueKey}</td>
+                          <td className="p-3 font-medium text-slate-900">{member?.name || alloc.suggestedAssigneeId}</td>
+                          <td className="p-3 text-slate-600">{alloc.reason}</td>
+                          <td className="p-3 text-right whitespace-nowrap">
+                            {outcome ? (
+                              outcome.ok ? (
+                                <span className="inline-flex items-center gap-1 text-xs font-medium text-green-600">
+                                  <CheckCircle2 size={14} /> Applied
+                                </span>
+                              ) : (
+                                <span className="inline-flex items-center gap-1 text-xs font-medium text-red-600" title={outcome.error}>
+                                  <XCircle size={14} /> Failed
+                                </span>
+                              )
+                            ) : note ? (
+                              <span className="text-xs text-slate-400">{note}</span>
+                            ) : (
+                              <div className="inline-flex gap-1">
+                                <button
+                                  onClick={() => setDecision(alloc.issueKey, 'accepted')}
+                                  disabled={isApplying}
+                                  title="Accept"
+                                  className={`p-1.5 rounded-md border transition-colors ${decision === 'accepted' ? 'bg-green-600 border-green-600 text-white' : 'border-slate-200 text-slate-400 hover:text-green-600 hover:border-green-300'}`}
+                                >
+                                  <Check size={14} />
+                                </button>
+                                <button
+                                  onClick={() => setDecision(alloc.issueKey, 'rejected')}
+                                  disabled={isApplying}
+                                  title="Reject"
+                                  className={`p-1.5 rounded-md border transition-colors ${decision === 'rejected' ? 'bg-slate-600 border-slate-600 text-white' : 'border-slate-200 text-slate-400 hover:text-red-600 hover:border-red-300'}`}
+                                >
+                                  <Ban size={14} />
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
+
+              {/* Per-issue failures from the last apply */}
+              {failedCount > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {appliedResults.filter(r => !r.ok).map(r => (
+                    <li key={r.issueKey} className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+                      <span className="font-mono font-semibold">{r.issueKey}</span>: {r.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Dry run: exactly what will be written to Jira */}
+              {showDiff && (
+                <div className="mt-4 border border-amber-200 bg-amber-50 rounded-lg p-4">
+                  <h4 className="text-sm font-semibold text-amber-900 mb-2">
+                    Dry run: {pendingChanges.length} assignee change{pendingChanges.length === 1 ? '' : 's'}
+                  </h4>
+                  {pendingChanges.length === 0 ? (
+                    <p className="text-xs text-amber-800">Accept at least one suggestion to apply it.</p>
+                  ) : (
+                    <ul className="space-y-1.5">
+                      {pendingChanges.map(({ alloc, issue }) => (
+                        <li key={alloc.issueKey} className="flex items-center gap-2 text-xs text-slate-700">
+                          <span className="font-mono font-semibold w-20 shrink-0">{alloc.issueKey}</span>
+                          <span className="truncate flex-1" title={issue?.summary}>{issue?.summary}</span>
+                          <span className="text-red-600 line-through">{memberName(issue?.assigneeId ?? null)}</span>
+                          <ArrowRight size={12} className="text-slate-400 shrink-0" />
+                          <span className="text-green-700 font-medium">{memberName(alloc.suggestedAssigneeId)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end">
-          <Button onClick={onClose}>Close Analysis</Button>
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-3">
+          {rows.length > 0 && (
+            showDiff ? (
+              <>
+                <Button variant="ghost" onClick={() => setShowDiff(false)} disabled={isApplying}>Back</Button>
+                <Button 
+                  onClick={handleApply} 
+                  disabled={isApplying || pendingChanges.length === 0}
+                  icon={<Upload size={16} />}
+                >
+                  {isApplying ? 'Applying...' : 'Apply to Jira'}
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setShowDiff(true)} disabled={pendingChanges.length === 0}>
+                Review {pendingChanges.length} Change{pendingChanges.length === 1 ? '' : 's'}
+              </Button>
+            )
+          )}
+          <Button variant={showDiff ? 'secondary' : 'primary'} onClick={onClose}>Close Analysis</Button>
         </div>
       </div>
     </div>
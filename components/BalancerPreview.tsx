@@ -0,0 +1,134 @@
+import React from 'react';
+import { TeamMember, Sprint, CapacityUnit } from '../types';
+import { BalancerResult } from '../services/balancerService';
+import { getIssueLoad, UNIT_LABELS } from '../services/capacityService';
+import { Button } from './Button';
+import { Wand2, X, ArrowRight, AlertCircle, RefreshCw } from 'lucide-react';
+
+interface BalancerPreviewProps {
+  result: BalancerResult;
+  team: TeamMember[];
+  sprints: Sprint[];
+  unit: CapacityUnit;
+  wipLimit: number;
+  syncToJira: boolean;
+  onWipLimitChange: (limit: number) => void;
+  onAccept: () => void;
+  onClose: () => void;
+}
+
+export const BalancerPreview: React.FC<BalancerPreviewProps> = ({
+  result, team, sprints, unit, wipLimit, syncToJira, onWipLimitChange, onAccept, onClose
+}) => {
+  const unitLabel = UNIT_LABELS[unit];
+  const getMember = (id: string) => team.find(m => m.id === id);
+  const getSprintName = (id: string) => sprints.find(s => s.id === id)?.name || id;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Wand2 size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Auto-balance Proposal</h2>
+              <p className="text-sm text-slate-500">Unassigned issues by priority, matched on skills and free sprint capacity</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-100 flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-slate-600">
+            WIP limit
+            <input
+              type="number"
+              min="0"
+              value={wipLimit}
+              onChange={(e) => onWipLimitChange(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-16 px-2 py-1 text-sm border rounded bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </label>
+          <span className="text-xs text-slate-400">open issues per member per sprint, 0 for no limit</span>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto space-y-6">
+          {result.assignments.length === 0 ? (
+            <div className="text-center py-8 text-slate-400 text-sm">No assignments fit the current capacity and limits.</div>
+          ) : (
+            <div className="space-y-3">
+              {result.assignments.map(a => {
+                const member = getMember(a.assigneeId);
+                return (
+                  <div key={a.issue.id} className="p-3 border border-slate-200 rounded-lg">
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="text-xs font-mono text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">{a.issue.key}</span>
+                      <span className="flex-1 min-w-0 truncate text-slate-800 font-medium">{a.issue.summary}</span>
+                      <span className="text-xs font-bold text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">
+                        {getIssueLoad(a.issue, unit)} {unitLabel}
+                      </span>
+                      <ArrowRight size={14} className="text-slate-300 shrink-0" />
+                      <div className="flex items-center gap-2 shrink-0">
+                        <img
+                          src={member?.avatar || `https://ui-avatars.com/api/?name=${member?.name}`}
+                          alt={member?.name}
+                          className="w-6 h-6 rounded-full"
+                        />
+                        <span className="font-medium text-slate-700">{member?.name}</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2">
+                      {a.movesSprint && (
+                        <span className="text-[10px] uppercase font-bold bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded mr-2">
+                          Into {getSprintName(a.sprintId)}
+                        </span>
+                      )}
+                      {a.reason}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {result.skipped.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wider mb-2 flex items-center gap-2">
+                <AlertCircle size={14} className="text-amber-500" />
+                Left Unassigned ({result.skipped.length})
+              </h3>
+              <ul className="space-y-1 text-sm">
+                {result.skipped.map(s => (
+                  <li key={s.issue.id} className="flex gap-2 text-slate-600">
+                    <span className="text-xs font-mono text-slate-400 shrink-0">{s.issue.key}</span>
+                    <span>{s.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex items-center justify-between gap-3">
+          <span className="text-xs text-slate-500 flex items-center gap-1">
+            <RefreshCw size={12} className={syncToJira ? 'text-blue-600' : 'text-slate-400'} />
+            {syncToJira ? 'Changes will be synced to Jira' : 'Changes stay local (enable "Sync moves to Jira" to push them)'}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button onClick={onAccept} disabled={result.assignments.length === 0}>
+              Accept {result.assignments.length} assignment{result.assignments.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
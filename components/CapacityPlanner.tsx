@@ -1,22 +1,93 @@
-import React from 'react';
-import { JiraIssue, TeamMember, Sprint, Status } from '../types';
-import { CheckCircle, Users, ExternalLink } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { JiraIssue, TeamMember, Sprint, Status, IssueMove, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { getMemberSprintCapacity, getIssueLoad, getOpenSprintOrder, sumLoad, UNIT_LABELS } from '../services/capacityService';
+import { SkillMappings } from '../services/skillService';
+import { balanceBacklog } from '../services/balancerService';
+import { BalancerPreview } from './BalancerPreview';
+import { CheckCircle, Users, ExternalLink, GripVertical, RefreshCw, Inbox, LayoutGrid, Columns, Wand2 } from 'lucide-react';
 
 interface CapacityPlannerProps {
   team: TeamMember[];
   issues: JiraIssue[];
   sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
+  skillMappings: SkillMappings;
+  onMoveIssue: (issueId: string, move: IssueMove, syncToJira: boolean) => void;
+  onApplyMoves: (moves: { issueId: string; move: IssueMove }[], syncToJira: boolean) => void;
 }
 
-export const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ team, issues }) => {
-  // Helper to get assignee load
+// Default open issues per member per sprint for the auto-balancer
+const DEFAULT_WIP_LIMIT = 5;
+
+// Drop targets are keyed so the hovered one can be highlighted
+const BACKLOG_TARGET = 'assignee:none';
+const NO_SPRINT_TARGET = 'sprint:none';
+
+export const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ 
+  team, issues, sprints, timeOff, capacitySnapshots, unit, skillMappings, onMoveIssue, onApplyMoves 
+}) => {
+  const unitLabel = UNIT_LABELS[unit];
+  // Story points, or remaining estimate hours in hours mode
+  const sumPoints = (list: JiraIssue[]) => sumLoad(list, unit);
+
+  const [syncToJira, setSyncToJira] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Kept while dragging: dataTransfer can't be read until the drop
+  const [draggedIssue, setDraggedIssue] = useState<JiraIssue | null>(null);
+  const [layout, setLayout] = useState<'board' | 'grid'>('board');
+  const [showBalancer, setShowBalancer] = useState(false);
+  const [wipLimit, setWipLimit] = useState(DEFAULT_WIP_LIMIT);
+
+  // Only computed while the preview is open
+  const balance = useMemo(() => showBalancer
+    ? balanceBacklog(team, issues, sprints, { unit, timeOff, snapshots: capacitySnapshots, skillMappings, wipLimit })
+    : null,
+  [showBalancer, team, issues, sprints, unit, timeOff, capacitySnapshots, skillMappings, wipLimit]);
+
+  const handleAcceptBalance = () => {
+    if (!balance) return;
+    onApplyMoves(balance.assignments.map(a => ({
+      issueId: a.issue.id,
+      move: { assigneeId: a.assigneeId, ...(a.movesSprint ? { sprintId: a.sprintId } : {}) }
+    })), syncToJira);
+    setShowBalancer(false);
+  };
+
+  // Closed sprints can't take new issues; active first, then future sprints by start date
+  const openSprints = useMemo(() => getOpenSprintOrder(sprints), [sprints]);
+
+  const [selectedSprintId, setSelectedSprintId] = useState<string | undefined>(openSprints[0]?.id);
+  // Fall back to the first open sprint if the selection disappeared after a refresh
+  const selectedSprint = openSprints.find(s => s.id === selectedSprintId) || openSprints[0];
+
+  const openIssues = useMemo(() => issues.filter(i => i.status !== Status.DONE), [issues]);
+
+  // Issues with no sprint are unscheduled backlog and never count against a sprint's capacity
+  const getCellIssues = (memberId: string | null, sprintId?: string) =>
+    openIssues.filter(i => i.assigneeId === memberId && i.sprintId === sprintId);
+
+  // Load for the selected sprint; without any open sprints, everything assigned counts
   const getMemberStats = (memberId: string) => {
-    const memberIssues = issues.filter(i => i.assigneeId === memberId && i.status !== Status.DONE);
-    const assignedPoints = memberIssues.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
-    return { assignedPoints, issueCount: memberIssues.length, issues: memberIssues };
+    const memberIssues = selectedSprint 
+      ? getCellIssues(memberId, selectedSprint.id) 
+      : openIssues.filter(i => i.assigneeId === memberId);
+    const unscheduledIssues = selectedSprint ? getCellIssues(memberId, undefined) : [];
+    return { 
+      assignedPoints: sumPoints(memberIssues), 
+      issueCount: memberIssues.length, 
+      issues: memberIssues,
+      unscheduledPoints: sumPoints(unscheduledIssues),
+      unscheduledCount: unscheduledIssues.length
+    };
   };
 
-  const unassignedIssues = issues.filter(i => !i.assigneeId && i.status !== Status.DONE);
+  const unassignedInSprint = selectedSprint ? getCellIssues(null, selectedSprint.id) : [];
+  const unassignedNoSprint = getCellIssues(null, undefined);
+  const unassignedIssues = selectedSprint 
+    ? [...unassignedInSprint, ...unassignedNoSprint] 
+    : openIssues.filter(i => !i.assigneeId);
 
   // Filter team members who have active tasks
   const activeTeamMembers = team.filter(member => {
@@ -24,7 +95,67 @@ export const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ team, issues }
     return stats.issueCount > 0;
   });
 
+  // Capacity shrinks with sprint length, holidays and time off unless overridden; without sprints it's the flat figure
+  const getCapacity = (member: TeamMember, sprint?: Sprint) =>
+    sprint ? getMemberSprintCapacity(member, sprint, timeOff, capacitySnapshots) : member.capacityPerSprint;
+
+  const getSprintPoints = (sprintId?: string) => sumPoints(openIssues.filter(i => i.sprintId === sprintId));
+
+  const handleDragStart = (e: React.DragEvent, issue: JiraIssue) => {
+    e.dataTransfer.setData('text/plain', issue.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedIssue(issue);
+  };
+
+  const handleDragEnd = () => setDraggedIssue(null);
+
+  // A sprint belongs to one project's board; Jira won't take another project's issue into it
+  const crossesProject = (issue: JiraIssue, sprintId?: string | null) => {
+    const sprint = sprintId ? sprints.find(s => s.id === sprintId) : undefined;
+    return !!sprint && (sprint.projectKey || '') !== (issue.projectKey || '');
+  };
+
+  // Greys out sprint targets the dragged issue can't go to
+  const blockedDrop = (sprintId?: string) =>
+    draggedIssue && crossesProject(draggedIssue, sprintId) ? 'opacity-40 cursor-not-allowed' : '';
+
+  // Props that turn an element into a drop zone applying `move` to the dragged issue
+  const dropZone = (target: string, move: IssueMove) => ({
+    onDragOver: (e: React.DragEvent) => {
+      // Not calling preventDefault leaves the drop disallowed
+      if (draggedIssue && crossesProject(draggedIssue, move.sprintId)) {
+        e.dataTransfer.dropEffect = 'none';
+        return;
+      }
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const issueId = e.dataTransfer.getData('text/plain');
+      const issue = issues.find(i => i.id === issueId);
+      setDraggedIssue(null);
+      if (!issue || crossesProject(issue, move.sprintId)) return;
+
+      // Skip drops that don't change anything
+      const changesAssignee = move.assigneeId !== undefined && move.assigneeId !== issue.assigneeId;
+      const changesSprint = move.sprintId !== undefined && (move.sprintId ?? undefined) !== issue.sprintId;
+      if (changesAssignee || changesSprint) onMoveIssue(issueId, move, syncToJira);
+    }
+  });
+
+  const dropHighlight = (target: string) =>
+    dropTarget === target ? 'ring-2 ring-blue-400 ring-offset-1 bg-blue-50/50' : '';
+
+  const getSprintName = (sprintId?: string) => sprints.find(s => s.id === sprintId)?.name;
+
   const renderIssueCard = (issue: JiraIssue) => {
+    const sprintName = getSprintName(issue.sprintId);
     const cardContent = (
       <>
         <div className="flex justify-between items-start mb-1">
@@ -43,129 +174,372 @@ export const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ team, issues }
         </div>
         <div className="flex items-center gap-2">
           <span className="text-xs font-medium text-slate-600 bg-slate-100 px-2 py-0.5 rounded-full flex items-center">
-              {issue.storyPoints} pts
+              {getIssueLoad(issue, unit)} {unitLabel}
           </span>
           <span className="text-xs text-slate-400">{issue.type}</span>
+          {sprintName && <span className="text-[10px] text-slate-400 truncate ml-auto">{sprintName}</span>}
         </div>
       </>
     );
 
     return (
-      <div key={issue.id} className="p-3 border border-slate-200 rounded-lg hover:shadow-md transition-all bg-white group relative">
+      <div
+        key={issue.id}
+        draggable
+        onDragStart={(e) => handleDragStart(e, issue)}
+        onDragEnd={handleDragEnd}
+        className="p-3 border border-slate-200 rounded-lg hover:shadow-md transition-all bg-white group relative cursor-move"
+      >
         {issue.browserUrl ? (
-          <a href={issue.browserUrl} target="_blank" rel="noopener noreferrer" className="block">
+          <a href={issue.browserUrl} target="_blank" rel="noopener noreferrer" draggable={false} className="block">
             {cardContent}
           </a>
         ) : (
-          <div className="block cursor-move">{cardContent}</div>
+          <div className="block">{cardContent}</div>
         )}
       </div>
     );
   };
 
+  // Members × sprints: load against capacity in every open sprint, plus unscheduled work
+  const renderSprintGrid = () => {
+    const columns: { id?: string; name: string; sprint?: Sprint }[] = [
+      ...openSprints.map(s => ({ id: s.id, name: s.name, sprint: s })),
+      { id: undefined, name: 'Not in a sprint' }
+    ];
+
+    return (
+      <div className="flex-1 min-h-0 bg-white rounded-xl shadow-sm border border-slate-200 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs sticky top-0 z-10">
+            <tr>
+              <th className="text-left p-3 font-semibold">Member</th>
+              {columns.map(col => (
+                <th key={col.id || 'none'} className="text-left p-3 font-semibold min-w-[140px]">
+                  {col.id ? (
+                    <button
+                      type="button"
+                      onClick={() => { setSelectedSprintId(col.id); setLayout('board'); }}
+                      className="hover:text-blue-600 hover:underline"
+                    >
+                      {col.name}
+                    </button>
+                  ) : col.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {[...team.map(m => ({ id: m.id as string | null, name: m.name, avatar: m.avatar || `https://ui-avatars.com/api/?name=${m.name}`, member: m as TeamMember | undefined })),
+              { id: null, name: 'Unassigned', avatar: '', member: undefined }
+            ].map(row => (
+              <tr key={row.id || 'unassigned'}>
+                <td className="p-3">
+                  <div className="flex items-center gap-2">
+                    {row.avatar ? (
+                      <img src={row.avatar} alt={row.name} className="w-7 h-7 rounded-full border border-slate-200" />
+                    ) : (
+                      <div className="w-7 h-7 rounded-full bg-slate-100 flex items-center justify-center">
+                        <Inbox size={12} className="text-slate-400" />
+                      </div>
+                    )}
+                    <div>
+                      <p className="font-medium text-slate-900 whitespace-nowrap">{row.name}</p>
+                      {row.member && <p className="text-[10px] text-slate-400">{row.member.capacityPerSprint} {unitLabel} / 10 days</p>}
+                    </div>
+                  </div>
+                </td>
+                {columns.map(col => {
+                  const cellIssues = getCellIssues(row.id, col.id);
+                  const points = sumPoints(cellIssues);
+                  // Capacity only applies to real sprints and real members
+                  const hasCapacity = !!row.member && !!col.sprint;
+                  const capacity = row.member && col.sprint ? getCapacity(row.member, col.sprint) : 0;
+                  const utilization = capacity > 0 ? Math.round((points / capacity) * 100) : 0;
+                  const isOverloaded = hasCapacity && points > capacity;
+                  const target = `cell:${row.id || 'none'}:${col.id || 'none'}`;
+
+                  return (
+                    <td
+                      key={col.id || 'none'}
+                      {...dropZone(target, { assigneeId: row.id, sprintId: col.id ?? null })}
+                      className={`p-2 align-top transition-all ${isOverloaded ? 'bg-red-50' : ''} ${dropHighlight(target)} ${blockedDrop(col.id)}`}
+                    >
+                      <div className="flex items-baseline justify-between mb-1">
+                        <span className={`font-bold ${isOverloaded ? 'text-red-600' : 'text-slate-700'}`}>
+                          {points}
+                          {hasCapacity && <span className="text-xs font-normal text-slate-400"> / {capacity}</span>}
+                        </span>
+                        {hasCapacity && (
+                          <span className={`text-[10px] font-medium ${isOverloaded ? 'text-red-500' : 'text-green-600'}`}>{utilization}%</span>
+                        )}
+                      </div>
+                      {hasCapacity && (
+                        <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden mb-2">
+                          <div
+                            className={`h-full rounded-full transition-all duration-500 ${isOverloaded ? 'bg-red-500' : 'bg-blue-500'}`}
+                            style={{ width: `${Math.min(100, utilization)}%` }}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-1">
+                        {cellIssues.map(issue => (
+                          <div
+                            key={issue.id}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, issue)}
+                            onDragEnd={handleDragEnd}
+                            title={issue.summary}
+                            className="flex items-center justify-between gap-1 bg-white px-1.5 py-1 rounded border border-slate-200 text-xs cursor-move hover:border-blue-200"
+                          >
+                            <span className="font-mono text-slate-500 truncate">{issue.key}</span>
+                            <span className="font-bold text-slate-600 shrink-0">{getIssueLoad(issue, unit)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-140px)]">
-      {/* Unassigned Backlog Column */}
-      <div className="lg:col-span-1 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-        <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
-          <h3 className="font-semibold text-slate-800">Unassigned Backlog</h3>
-          <span className="bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">
-            {unassignedIssues.length}
-          </span>
+    <div className="flex flex-col gap-4 h-[calc(100vh-140px)]">
+      {/* Sprint Drop Targets */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-3 flex items-center gap-3 overflow-x-auto shrink-0">
+        <div
+          {...dropZone(NO_SPRINT_TARGET, { sprintId: null })}
+          className={`flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-slate-300 text-sm whitespace-nowrap transition-all ${dropHighlight(NO_SPRINT_TARGET)}`}
+        >
+          <Inbox size={14} className="text-slate-400" />
+          <span className="font-medium text-slate-700">Backlog</span>
+          <span className="text-xs text-slate-400">{getSprintPoints(undefined)} {unitLabel}</span>
         </div>
-        <div className="overflow-y-auto p-4 space-y-3 flex-1">
-          {unassignedIssues.length === 0 ? (
-            <div className="text-center py-10 text-slate-400">
-              <CheckCircle className="mx-auto h-10 w-10 mb-2 opacity-50" />
-              <p>No unassigned issues</p>
-            </div>
-          ) : (
-            unassignedIssues.map(renderIssueCard)
-          )}
+        {/* Click a sprint to plan it, drop an issue on it to move the issue there */}
+        {openSprints.map(sprint => {
+          const target = `sprint:${sprint.id}`;
+          const isSelected = selectedSprint?.id === sprint.id;
+          return (
+            <button
+              key={sprint.id}
+              type="button"
+              onClick={() => setSelectedSprintId(sprint.id)}
+              {...dropZone(target, { sprintId: sprint.id })}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm whitespace-nowrap transition-all ${
+                isSelected ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 hover:bg-slate-50'
+              } ${dropHighlight(target)} ${blockedDrop(sprint.id)}`}
+            >
+              <span className={`font-medium ${isSelected ? 'text-blue-700' : 'text-slate-700'}`}>{sprint.name}</span>
+              {sprint.state === 'active' && (
+                <span className="text-[10px] uppercase font-bold text-green-600">Active</span>
+              )}
+              <span className="text-xs text-slate-400">{getSprintPoints(sprint.id)} {unitLabel}</span>
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          onClick={() => setShowBalancer(true)}
+          disabled={unassignedIssues.length === 0}
+          className="ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap shrink-0 transition-colors"
+        >
+          <Wand2 size={12} />
+          Auto-balance
+        </button>
+        <div className="flex bg-slate-100 rounded-lg p-0.5 shrink-0">
+          {([
+            { key: 'board', label: 'Board', icon: Columns },
+            { key: 'grid', label: 'Sprint Grid', icon: LayoutGrid }
+          ] as const).map(({ key, label, icon: Icon }) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setLayout(key)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                layout === key ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Icon size={12} />
+              {label}
+            </button>
+          ))}
         </div>
+        <label className=" flex items-center gap-2 text-xs text-slate-600 whitespace-nowrap cursor-pointer pl-3">
+          <input
+            type="checkbox"
+            checked={syncToJira}
+            onChange={(e) => setSyncToJira(e.target.checked)}
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          <RefreshCw size={12} className={syncToJira ? 'text-blue-600' : 'text-slate-400'} />
+          Sync moves to Jira
+        </label>
       </div>
 
-      {/* Team Capacity Column */}
-      <div className="lg:col-span-2 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-        <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
-          <h3 className="font-semibold text-slate-800">Active Workloads</h3>
-          <span className="text-xs text-slate-500">
-            {activeTeamMembers.length} active members
-          </span>
-        </div>
-        <div className="overflow-y-auto p-4 space-y-4 flex-1">
-          {activeTeamMembers.length === 0 ? (
-            <div className="h-full flex flex-col items-center justify-center text-slate-400">
-              <Users className="h-12 w-12 mb-3 opacity-30" />
-              <p className="text-lg font-medium text-slate-600">No Active Workloads</p>
-              <p className="text-sm">Assign tasks to team members to see their capacity utilization.</p>
+      {layout === 'grid' ? renderSprintGrid() : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-0">
+          {/* Unassigned Backlog Column */}
+          <div
+            {...dropZone(BACKLOG_TARGET, { assigneeId: null })}
+            className={`lg:col-span-1 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden transition-all ${dropHighlight(BACKLOG_TARGET)}`}
+          >
+            <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+              <h3 className="font-semibold text-slate-800">Unassigned Backlog</h3>
+              <span className="bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">
+                {unassignedIssues.length}
+              </span>
             </div>
-          ) : (
-            activeTeamMembers.map(member => {
-            const stats = getMemberStats(member.id);
-            const utilization = Math.min(100, Math.round((stats.assignedPoints / member.capacityPerSprint) * 100));
-            const isOverloaded = stats.assignedPoints > member.capacityPerSprint;
-
-            return (
-              <div key={member.id} className="border border-slate-200 rounded-xl p-4 transition-all hover:shadow-sm">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <img src={member.avatar} alt={member.name} className="w-10 h-10 rounded-full border border-slate-200" />
-                    <div>
-                      <h4 className="font-medium text-slate-900">{member.name}</h4>
-                      <p className="text-xs text-slate-500">{member.role}</p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className={`text-xl font-bold ${isOverloaded ? 'text-red-600' : 'text-slate-700'}`}>
-                      {stats.assignedPoints} <span className="text-sm font-normal text-slate-400">/ {member.capacityPerSprint} pts</span>
-                    </div>
-                    <p className={`text-xs font-medium ${isOverloaded ? 'text-red-500' : 'text-green-600'}`}>
-                      {utilization}% Capacity
-                    </p>
-                  </div>
+            <div className="overflow-y-auto p-4 space-y-3 flex-1">
+              {unassignedIssues.length === 0 ? (
+                <div className="text-center py-10 text-slate-400">
+                  <CheckCircle className="mx-auto h-10 w-10 mb-2 opacity-50" />
+                  <p>No unassigned issues</p>
                 </div>
+              ) : selectedSprint ? (
+                <>
+                  <h5 className="text-xs font-semibold text-slate-500 uppercase">
+                    In {selectedSprint.name} ({unassignedInSprint.length})
+                  </h5>
+                  {unassignedInSprint.map(renderIssueCard)}
+                  <h5 className="text-xs font-semibold text-slate-500 uppercase pt-2">
+                    Not in a sprint ({unassignedNoSprint.length})
+                  </h5>
+                  {unassignedNoSprint.map(renderIssueCard)}
+                </>
+              ) : (
+                unassignedIssues.map(renderIssueCard)
+              )}
+            </div>
+          </div>
 
-                {/* Progress Bar */}
-                <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden mb-4">
-                  <div 
-                    className={`h-full rounded-full transition-all duration-500 ${isOverloaded ? 'bg-red-500' : 'bg-blue-500'}`} 
-                    style={{ width: `${utilization}%` }}
-                  />
+          {/* Team Capacity Column */}
+          <div className="lg:col-span-2 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+              <h3 className="font-semibold text-slate-800">
+                Active Workloads{selectedSprint && <span className="font-normal text-slate-500"> · {selectedSprint.name}</span>}
+              </h3>
+              <span className="text-xs text-slate-500">
+                {activeTeamMembers.length} active members · drag issues onto a member to assign
+              </span>
+            </div>
+            <div className="overflow-y-auto p-4 space-y-4 flex-1">
+              {team.length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center text-slate-400">
+                  <Users className="h-12 w-12 mb-3 opacity-30" />
+                  <p className="text-lg font-medium text-slate-600">No Active Workloads</p>
+                  <p className="text-sm">Assign tasks to team members to see their capacity utilization.</p>
                 </div>
+              ) : (
+                // Every member is a drop target, so idle members are listed too
+                team.map(member => {
+                const stats = getMemberStats(member.id);
+                const capacity = getCapacity(member, selectedSprint);
+                const utilization = capacity > 0 
+                  ? Math.min(100, Math.round((stats.assignedPoints / capacity) * 100)) 
+                  : (stats.assignedPoints > 0 ? 100 : 0);
+                const isOverloaded = stats.assignedPoints > capacity;
+                const target = `assignee:${member.id}`;
 
-                {/* Assigned Issues List (Mini) */}
-                <div className="bg-slate-50 rounded-lg p-3">
-                  <h5 className="text-xs font-semibold text-slate-500 uppercase mb-2">Assigned Tasks ({stats.issueCount})</h5>
-                  {stats.issueCount === 0 ? (
-                    <p className="text-xs text-slate-400 italic">No active tasks assigned.</p>
-                  ) : (
-                    <div className="space-y-2">
-                      {stats.issues.map(issue => (
-                        <div key={issue.id} className="flex items-center justify-between bg-white p-2 rounded border border-slate-200 shadow-sm text-sm group hover:border-blue-200 transition-colors">
-                          <div className="flex items-center gap-2 overflow-hidden flex-1">
-                             <span className="text-xs font-mono text-slate-400 shrink-0 bg-slate-50 px-1 rounded">{issue.key}</span>
-                             {issue.browserUrl ? (
-                               <a href={issue.browserUrl} target="_blank" rel="noopener noreferrer" className="truncate text-slate-700 hover:text-blue-600 hover:underline">
-                                 {issue.summary}
-                               </a>
-                             ) : (
-                               <span className="truncate text-slate-700">{issue.summary}</span>
-                             )}
-                          </div>
-                          <span className="text-xs font-bold text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded ml-2 shrink-0">{issue.storyPoints}</span>
-                          {issue.browserUrl && <ExternalLink size={10} className="ml-1 text-slate-300 opacity-0 group-hover:opacity-100" />}
+                return (
+                  <div
+                    key={member.id}
+                    {...dropZone(target, { assigneeId: member.id })}
+                    className={`border border-slate-200 rounded-xl p-4 transition-all hover:shadow-sm ${dropHighlight(target)}`}
+                  >
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-3">
+                        <img src={member.avatar || `https://ui-avatars.com/api/?name=${member.name}`} alt={member.name} className="w-10 h-10 rounded-full border border-slate-200" />
+                        <div>
+                          <h4 className="font-medium text-slate-900">{member.name}</h4>
+                          <p className="text-xs text-slate-500">{member.role}</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className={`text-xl font-bold ${isOverloaded ? 'text-red-600' : 'text-slate-700'}`}>
+                          {stats.assignedPoints} <span className="text-sm font-normal text-slate-400">/ {capacity} {unitLabel}</span>
                         </div>
-                      ))}
+                        <p className={`text-xs font-medium ${isOverloaded ? 'text-red-500' : 'text-green-600'}`}>
+                          {utilization}% Capacity
+                        </p>
+                        {stats.unscheduledCount > 0 && (
+                          <p className="text-[10px] text-slate-400">
+                            +{stats.unscheduledPoints} {unitLabel} not in a sprint
+                          </p>
+                        )}
+                      </div>
                     </div>
-                  )}
-                </div>
-              </div>
-            );
-          })
-          )}
+
+                    {/* Progress Bar */}
+                    <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden mb-4">
+                      <div
+                        className={`h-full rounded-full transition-all duration-500 ${isOverloaded ? 'bg-red-500' : 'bg-blue-500'}`}
+                        style={{ width: `${utilization}%` }}
+                      />
+                    </div>
+
+                    {/* Assigned Issues List (Mini) */}
+                    <div className="bg-slate-50 rounded-lg p-3">
+                      <h5 className="text-xs font-semibold text-slate-500 uppercase mb-2">Assigned Tasks ({stats.issueCount})</h5>
+                      {stats.issueCount === 0 ? (
+                        <p className="text-xs text-slate-400 italic">No active tasks assigned.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {stats.issues.map(issue => (
+                            <div
+                              key={issue.id}
+                              draggable
+                              onDragStart={(e) => handleDragStart(e, issue)}
+                              onDragEnd={handleDragEnd}
+                              className="flex items-center justify-between bg-white p-2 rounded border border-slate-200 shadow-sm text-sm group hover:border-blue-200 transition-colors cursor-move"
+                            >
+                              <div className="flex items-center gap-2 overflow-hidden flex-1">
+                                 <GripVertical size={12} className="text-slate-300 shrink-0" />
+                                 <span className="text-xs font-mono text-slate-400 shrink-0 bg-slate-50 px-1 rounded">{issue.key}</span>
+                                 {issue.browserUrl ? (
+                                   <a href={issue.browserUrl} target="_blank" rel="noopener noreferrer" draggable={false} className="truncate text-slate-700 hover:text-blue-600 hover:underline">
+                                     {issue.summary}
+                                   </a>
+                                 ) : (
+                                   <span className="truncate text-slate-700">{issue.summary}</span>
+                                 )}
+                              </div>
+                              {getSprintName(issue.sprintId) && (
+                                <span className="text-[10px] text-slate-400 ml-2 shrink-0 truncate max-w-[100px]">{getSprintName(issue.sprintId)}</span>
+                              )}
+                              <span className="text-xs font-bold text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded ml-2 shrink-0">{getIssueLoad(issue, unit)}</span>
+                              {issue.browserUrl && <ExternalLink size={10} className="ml-1 text-slate-300 opacity-0 group-hover:opacity-100" />}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+              )}
+            </div>
+          </div>
         </div>
-      </div>
+      )}
+
+      {balance && (
+        <BalancerPreview
+          result={balance}
+          team={team}
+          sprints={sprints}
+          unit={unit}
+          wipLimit={wipLimit}
+          syncToJira={syncToJira}
+          onWipLimitChange={setWipLimit}
+          onAccept={handleAcceptBalance}
+          onClose={() => setShowBalancer(false)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
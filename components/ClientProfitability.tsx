@@ -1,18 +1,22 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { JiraIssue } from '../types';
+import { JiraIssue, Worklog } from '../types';
+import { getTimeEntries } from '../services/worklogService';
 import { 
   ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, 
   ResponsiveContainer, ReferenceLine, Cell
 } from 'recharts';
 import { 
   DollarSign, AlertOctagon, Briefcase, Settings2, 
-  Info 
+  Info, CalendarRange 
 } from 'lucide-react';
 
 interface ClientProfitabilityProps {
   issues: JiraIssue[];
+  worklogs: Worklog[];
 }
 
+type Period = 'all' | '30' | '90' | '365';
+
 interface ClientData {
   id: string;
   name: string;
@@ -23,8 +27,10 @@ interface ClientData {
 
 const STORAGE_KEY = 'jiracap_revenue_data_v1';
 
-export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues }) => {
+export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues, worklogs }) => {
   const [groupBy, setGroupBy] = useState<'project' | 'epic'>('epic');
+  // Restrict effort to worklogs started within the last N days
+  const [period, setPeriod] = useState<Period>('all');
   const [hourlyRate, setHourlyRate] = useState<number>(150); // Internal cost per hour
   
   // Persisted Revenue State
@@ -47,7 +53,13 @@ export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues
   const clientData: ClientData[] = useMemo(() => {
     const groups: Record<string, { name: string; seconds: number }> = {};
 
-    issues.forEach(issue => {
+    // Undated entries (issues without worklogs) only count towards "All time"
+    const since = period === 'all' ? null : Date.now() - Number(period) * 864e5;
+    const entries = getTimeEntries(issues, worklogs).filter(e => 
+      since === null || (e.started !== undefined && new Date(e.started).getTime() >= since)
+    );
+
+    entries.forEach(({ issue, seconds }) => {
       // Determine Group Key
       let key = 'Unknown';
       let name = 'Uncategorized';
@@ -73,7 +85,7 @@ export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues
       if (!groups[key]) {
         groups[key] = { name, seconds: 0 };
       }
-      groups[key].seconds += issue.timeSpentSeconds;
+      groups[key].seconds += seconds;
     });
 
     return Object.entries(groups)
@@ -92,7 +104,7 @@ export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues
       })
       .filter(d => d.hoursSpent > 0.1 || d.revenue > 0) // Filter out empty
       .sort((a, b) => b.revenue - a.revenue);
-  }, [issues, groupBy, revenueMap]);
+  }, [issues, worklogs, groupBy, revenueMap, period]);
 
   // Chart Logic
   const maxHours = Math.max(...clientData.map(d => d.hoursSpent), 10);
@@ -140,6 +152,23 @@ export const ClientProfitability: React.FC<ClientProfitabilityProps> = ({ issues
           
           <div className="w-px h-6 bg-slate-200"></div>
 
+          <div className="flex items-center gap-2">
+            <CalendarRange size={16} className="text-slate-400" />
+            <span className="text-xs font-medium text-slate-600">Period:</span>
+            <select 
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as Period)}
+              className="text-sm border-none bg-transparent font-semibold text-slate-900 focus:ring-0 cursor-pointer"
+            >
+              <option value="all">All time</option>
+              <option value="30">Last 30 days</option>
+              <option value="90">Last 90 days</option>
+              <option value="365">Last 12 months</option>
+            </select>
+          </div>
+
+          <div className="w-px h-6 bg-slate-200"></div>
+
           <div className="flex items-center gap-2">
             <Settings2 size={16} className="text-slate-400" />
             <span className="text-xs font-medium text-slate-600">Int. Rate:</span>
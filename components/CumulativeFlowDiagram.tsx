@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { JiraIssue, Status } from '../types';
+import { getCumulativeFlow } from '../services/flowService';
+import { toDateKey, parseDateKey, round1 } from '../services/capacityService';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Layers } from 'lucide-react';
+
+interface CumulativeFlowDiagramProps {
+  issues: JiraIssue[];
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const ALL_PROJECTS = 'all';
+
+// Stacked bottom-up: Done at the base, To Do on top
+const BANDS = [
+  { status: Status.DONE, color: '#10b981' },
+  { status: Status.IN_REVIEW, color: '#8b5cf6' },
+  { status: Status.IN_PROGRESS, color: '#3b82f6' },
+  { status: Status.TO_DO, color: '#94a3b8' }
+];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateKey(date);
+};
+
+export const CumulativeFlowDiagram: React.FC<CumulativeFlowDiagramProps> = ({ issues }) => {
+  const [projectKey, setProjectKey] = useState<string>(ALL_PROJECTS);
+  const [from, setFrom] = useState(() => daysAgo(DEFAULT_RANGE_DAYS));
+  const [to, setTo] = useState(() => toDateKey(new Date()));
+
+  const projects = useMemo(
+    () => Array.from(new Set(issues.map(i => i.projectKey).filter((k): k is string => !!k))).sort(),
+    [issues]
+  );
+
+  const data = useMemo(() => {
+    const scoped = projectKey === ALL_PROJECTS ? issues : issues.filter(i => i.projectKey === projectKey);
+    return getCumulativeFlow(scoped, from, to).map(day => ({
+      ...day,
+      label: parseDateKey(day.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    }));
+  }, [issues, projectKey, from, to]);
+
+  // Average issues waiting in each in-flight status across the range
+  const averages = useMemo(() => [Status.IN_PROGRESS, Status.IN_REVIEW].map(status => ({
+    status,
+    value: data.length === 0 ? 0 : round1(data.reduce((acc, d) => acc + d[status], 0) / data.length)
+  })), [data]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-lg">
+            <Layers size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Cumulative Flow</h3>
+            <p className="text-xs text-slate-500">
+              Issues per status at the end of each day
+              {averages.map(a => ` · avg ${a.value} ${a.status}`).join('')}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={projectKey}
+            onChange={(e) => setProjectKey(e.target.value)}
+            className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+          >
+            <option value={ALL_PROJECTS}>All projects</option>
+            {projects.map(key => <option key={key} value={key}>{key}</option>)}
+          </select>
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+          <span className="text-xs text-slate-400">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <div className="text-center py-16 text-slate-400 text-sm">No days in the selected range.</div>
+      ) : (
+        <div className="h-[360px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" stroke="#64748b" fontSize={11} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+              <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {BANDS.map(({ status, color }) => (
+                <Area
+                  key={status}
+                  type="stepAfter"
+                  dataKey={status}
+                  name={status}
+                  stackId="flow"
+                  stroke={color}
+                  fill={color}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useState, useMemo } from 'react';
+import { JiraIssue, TeamMember, IssueType, Status } from '../types';
+import { getCycleTimes, getTimeInStatus, percentile, DAY_MS } from '../services/flowService';
+import { round1 } from '../services/capacityService';
+import { CumulativeFlowDiagram } from './CumulativeFlowDiagram';
+import {
+  ScatterChart, Scatter, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, ReferenceLine, Cell
+} from 'recharts';
+import { Timer, Hourglass, Gauge, CheckCircle2, Filter, Info } from 'lucide-react';
+
+interface CycleTimeDashboardProps {
+  issues: JiraIssue[];
+  team: TeamMember[];
+}
+
+const PERCENTILES = [
+  { p: 50, color: '#10b981' },
+  { p: 85, color: '#f59e0b' },
+  { p: 95, color: '#ef4444' }
+];
+
+const STATUS_COLORS: Record<Status, string> = {
+  [Status.TO_DO]: '#94a3b8',
+  [Status.IN_PROGRESS]: '#3b82f6',
+  [Status.IN_REVIEW]: '#8b5cf6',
+  [Status.DONE]: '#10b981'
+};
+
+export const CycleTimeDashboard: React.FC<CycleTimeDashboardProps> = ({ issues, team }) => {
+  const [typeFilter, setTypeFilter] = useState<IssueType | 'all'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
+
+  const formatDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  const filteredIssues = useMemo(() => issues.filter(i =>
+    (typeFilter === 'all' || i.type === typeFilter) &&
+    (assigneeFilter === 'all' || i.assigneeId === assigneeFilter)
+  ), [issues, typeFilter, assigneeFilter]);
+
+  const records = useMemo(() => getCycleTimes(filteredIssues), [filteredIssues]);
+
+  const chartData = useMemo(() => records
+    .filter(r => r.cycleDays !== null)
+    .map(r => ({
+      key: r.issue.key,
+      summary: r.issue.summary,
+      completed: new Date(r.completedAt).getTime(),
+      cycleDays: round1(r.cycleDays as number)
+    }))
+    .sort((a, b) => a.completed - b.completed), [records]);
+
+  const stats = useMemo(() => {
+    const cycle = chartData.map(d => d.cycleDays);
+    const lead = records.filter(r => r.leadDays !== null).map(r => r.leadDays as number);
+    return {
+      completed: records.length,
+      percentiles: PERCENTILES.map(({ p, color }) => ({ p, color, value: round1(percentile(cycle, p)) })),
+      medianCycle: round1(percentile(cycle, 50)),
+      p85Cycle: round1(percentile(cycle, 85)),
+      medianLead: round1(percentile(lead, 50))
+    };
+  }, [chartData, records]);
+
+  // Average days each completed issue spent per status
+  const statusData = useMemo(() => {
+    if (records.length === 0) return [];
+    const totals = records.reduce((acc, r) => {
+      const times = getTimeInStatus(r.issue);
+      [Status.TO_DO, Status.IN_PROGRESS, Status.IN_REVIEW].forEach(s => { acc[s] = (acc[s] || 0) + times[s]; });
+      return acc;
+    }, {} as Record<string, number>);
+
+    return [Status.TO_DO, Status.IN_PROGRESS, Status.IN_REVIEW].map(s => ({
+      status: s,
+      days: round1((totals[s] || 0) / records.length / DAY_MS)
+    }));
+  }, [records]);
+
+  const hasHistory = issues.some(i => i.statusHistory && i.statusHistory.length > 0);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-600">
+          <Filter size={16} className="text-slate-400" />
+          Filters
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as IssueType | 'all')}
+          className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+        >
+          <option value="all">All issue types</option>
+          {Object.values(IssueType).map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select
+          value={assigneeFilter}
+          onChange={(e) => setAssigneeFilter(e.target.value)}
+          className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+        >
+          <option value="all">All assignees</option>
+          {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        {!hasHistory && (
+          <div className="flex items-center gap-1.5 text-xs text-amber-700">
+            <Info size={14} />
+            No status history loaded. Reconnect a Jira project to ingest changelogs.
+          </div>
+        )}
+      </div>
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Completed Issues</p>
+              <h3 className="text-2xl font-bold text-slate-900">{stats.completed}</h3>
+            </div>
+            <div className="p-3 rounded-full bg-green-100 text-green-600">
+              <CheckCircle2 size={20} />
+            </div>
+          </div>
+          <div className="mt-2 text-xs text-slate-500">Matching current filters</div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Median Cycle Time</p>
+              <h3 className="text-2xl font-bold text-slate-900">{stats.medianCycle}d</h3>
+            </div>
+            <div className="p-3 rounded-full bg-blue-100 text-blue-600">
+              <Timer size={20} />
+            </div>
+          </div>
+          <div className="mt-2 text-xs text-slate-500">First "In Progress" to "Done"</div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-500">85th Percentile</p>
+              <h3 className="text-2xl font-bold text-slate-900">{stats.p85Cycle}d</h3>
+            </div>
+            <div className="p-3 rounded-full bg-orange-100 text-orange-600">
+              <Gauge size={20} />
+            </div>
+          </div>
+          <div className="mt-2 text-xs text-slate-500">85% of issues finish within this</div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Median Lead Time</p>
+              <h3 className="text-2xl font-bold text-slate-900">{stats.medianLead}d</h3>
+            </div>
+            <div className="p-3 rounded-full bg-purple-100 text-purple-600">
+              <Hourglass size={20} />
+            </div>
+          </div>
+          <div className="mt-2 text-xs text-slate-500">Created to "Done"</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Control Chart */}
+        <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[420px] flex flex-col">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-slate-900">Control Chart</h3>
+            <div className="flex gap-4 text-xs">
+              {stats.percentiles.map(({ p, color, value }) => (
+                <div key={p} className="flex items-center gap-1">
+                  <div className="w-3 h-0.5" style={{ backgroundColor: color }}></div>
+                  <span className="text-slate-500">{p}th: {value}d</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 30, bottom: 20, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis
+                  type="number"
+                  dataKey="completed"
+                  name="Completed"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatDate}
+                  stroke="#64748b"
+                  fontSize={12}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="cycleDays"
+                  name="Cycle Time"
+                  unit="d"
+                  stroke="#64748b"
+                  fontSize={12}
+                />
+                <Tooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const data = payload[0].payload;
+                      return (
+                        <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-xs">
+                          <p className="font-bold text-slate-900">{data.key}</p>
+                          <p className="text-slate-600 max-w-[220px] truncate">{data.summary}</p>
+                          <p className="text-slate-600 mt-1">Completed: {formatDate(data.completed)}</p>
+                          <p className="text-slate-600">Cycle time: <span className="font-mono">{data.cycleDays}d</span></p>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                {stats.percentiles.map(({ p, color, value }) => (
+                  <ReferenceLine key={p} y={value} stroke={color} strokeDasharray="5 5" />
+                ))}
+                <Scatter name="Issues" data={chartData}>
+                  {chartData.map((entry, index) => (
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={entry.cycleDays > stats.p85Cycle ? '#ef4444' : '#3b82f6'}
+                    />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Time in Status */}
+        <div className="lg:col-span-1 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[420px]">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Average Time in Status</h3>
+          <p className="text-xs text-slate-500 mb-4">Days per completed issue</p>
+          <ResponsiveContainer width="100%" height="85%">
+            <BarChart data={statusData} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+              <XAxis type="number" unit="d" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis dataKey="status" type="category" width={80} stroke="#64748b" fontSize={11} tickLine={false} axisLine={false} />
+              <Tooltip cursor={{ fill: '#f1f5f9' }} />
+              <Bar dataKey="days" name="Avg days" radius={[0, 4, 4, 0]} barSize={24}>
+                {statusData.map(entry => (
+                  <Cell key={entry.status} fill={STATUS_COLORS[entry.status]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <CumulativeFlowDiagram issues={filteredIssues} />
+    </div>
+  );
+};
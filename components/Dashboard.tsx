@@ -1,48 +1,63 @@
-import React, { useMemo } from 'react';
-import { JiraIssue, TeamMember, Sprint, Status } from '../types';
+import React, { useMemo, useState } from 'react';
+import { JiraIssue, TeamMember, Sprint, Status, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { 
+  getMemberSprintCapacity, getTeamSprintCapacity, getCommittedLoad, sumLoad, UNIT_LABELS 
+} from '../services/capacityService';
+import { getTeamVelocity, getMemberVelocity, VelocitySummary } from '../services/velocityService';
+import { DeliveryForecast } from './DeliveryForecast';
+import { SprintBurnCharts } from './SprintBurnCharts';
 import { 
   Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  PieChart, Pie, Cell, ComposedChart, Line, ReferenceLine 
+  PieChart, Pie, Cell, ComposedChart, Line, ReferenceLine, LineChart, Area 
 } from 'recharts';
-import { AlertCircle, CheckCircle2, Clock, Users, Flame, TrendingUp, AlertTriangle, Activity } from 'lucide-react';
+import { AlertCircle, CheckCircle2, Clock, Users, Flame, TrendingUp, AlertTriangle, Activity, Gauge } from 'lucide-react';
 
 interface DashboardProps {
   issues: JiraIssue[];
   team: TeamMember[];
   sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) => {
+const TREND_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16'];
+
+export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints, timeOff, capacitySnapshots, unit }) => {
   
+  const unitLabel = UNIT_LABELS[unit];
   const activeSprint = useMemo(() => sprints.find(s => s.state === 'active'), [sprints]);
 
   const stats = useMemo(() => {
-    const totalPoints = issues.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
-    const completedPoints = issues.filter(i => i.status === Status.DONE).reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+    const totalPoints = sumLoad(issues, unit, getCommittedLoad);
+    const completedPoints = sumLoad(issues.filter(i => i.status === Status.DONE), unit, getCommittedLoad);
     const unassignedCount = issues.filter(i => !i.assigneeId).length;
     
-    // Capacity Calculation
+    // Capacity Calculation (working days, holidays and time off in the active sprint)
     const totalSprintCapacity = activeSprint 
-      ? team.reduce((acc, t) => acc + t.capacityPerSprint, 0)
+      ? getTeamSprintCapacity(team, activeSprint, timeOff, capacitySnapshots)
       : 0;
       
     const activeSprintPoints = activeSprint
-      ? issues.filter(i => i.sprintId === activeSprint.id).reduce((acc, i) => acc + i.storyPoints, 0)
+      ? sumLoad(issues.filter(i => i.sprintId === activeSprint.id), unit, getCommittedLoad)
       : 0;
 
     return { totalPoints, completedPoints, unassignedCount, totalSprintCapacity, activeSprintPoints };
-  }, [issues, team, sprints, activeSprint]);
+  }, [issues, team, sprints, activeSprint, timeOff, capacitySnapshots, unit]);
 
   const burnoutData = useMemo(() => {
     return team.map(member => {
       // 1. Calculate Active Load (Utilization)
-      // Matches Capacity Planner: All issues assigned to user that are NOT Done.
-      // This includes items in the active sprint AND items in the backlog/no-sprint assigned to them.
+      // Matches Capacity Planner: open issues assigned to user in the active sprint, measured against
+      // that sprint's capacity. Without an active sprint, everything open assigned to them counts.
       const activeAssignedIssues = issues.filter(i => 
         i.assigneeId === member.id && 
-        i.status !== Status.DONE
+        i.status !== Status.DONE &&
+        (activeSprint
+          ? i.sprintId === activeSprint.id && (i.projectKey || '') === (activeSprint.projectKey || '')
+          : true)
       );
-      const activeAssignedPoints = activeAssignedIssues.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+      const activeAssignedPoints = sumLoad(activeAssignedIssues, unit);
 
       // 2. Calculate Completed Work (Realization)
       // Context: If there is an active sprint, only count items done in that sprint.
@@ -53,9 +68,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
         i.status === Status.DONE &&
         (activeSprint ? i.sprintId === activeSprint.id : true)
       );
-      const completedPoints = completedIssues.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+      const completedPoints = sumLoad(completedIssues, unit, getCommittedLoad);
 
-      const capacity = member.capacityPerSprint;
+      const capacity = activeSprint 
+        ? getMemberSprintCapacity(member, activeSprint, timeOff, capacitySnapshots) 
+        : member.capacityPerSprint;
       
       // Utilization = Active Load / Capacity
       const rawUtilization = capacity > 0 ? (activeAssignedPoints / capacity) * 100 : 0;
@@ -79,29 +96,90 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
     })
     .filter(d => d.assigned > 0 || d.realization > 0) // Show if they have active work OR completed work
     .sort((a, b) => b.rawUtilization - a.rawUtilization); 
-  }, [issues, team, activeSprint]);
+  }, [issues, team, activeSprint, timeOff, capacitySnapshots, unit]);
+
+  // Utilization per member in every sprint captured while it was active, oldest sprint first
+  const trend = useMemo(() => {
+    const captured = capacitySnapshots.filter(s => s.capturedAt);
+    const sprintOrder = Array.from(new Map(captured.map(s => [s.sprintId, s])).values())
+      .sort((a, b) => new Date(a.sprintEndDate || 0).getTime() - new Date(b.sprintEndDate || 0).getTime());
+    const members = team.filter(m => captured.some(s => s.memberId === m.id));
+
+    const data = sprintOrder.map(sprint => {
+      const row: Record<string, string | number> = { name: sprint.sprintName || sprint.sprintId };
+      captured
+        .filter(s => s.sprintId === sprint.sprintId)
+        .forEach(s => { row[s.memberId] = s.utilization; });
+      return row;
+    });
+
+    return { data, members };
+  }, [capacitySnapshots, team]);
+
+  // Rolling velocity per project: each project's sprints are a separate cadence, so their windows never mix
+  const velocityByProject = useMemo(() => {
+    const projectKeys = Array.from(new Set(sprints.map(s => s.projectKey || '')));
+    return new Map<string, VelocitySummary>(projectKeys.map(key => [
+      key,
+      getTeamVelocity(issues, sprints.filter(s => (s.projectKey || '') === key), unit)
+    ]));
+  }, [issues, sprints, unit]);
+
+  // Projects with closed sprints to show; the first one until another is picked
+  const velocityProjects = useMemo(
+    () => Array.from(velocityByProject.entries()).filter(([, v]) => v.history.length > 0).map(([key]) => key).sort(),
+    [velocityByProject]
+  );
+  const [selectedVelocityProject, setSelectedVelocityProject] = useState<string | undefined>();
+  const velocityProject = selectedVelocityProject !== undefined && velocityProjects.includes(selectedVelocityProject)
+    ? selectedVelocityProject
+    : velocityProjects[0];
+  const velocity = useMemo<VelocitySummary>(
+    () => (velocityProject !== undefined && velocityByProject.get(velocityProject)) || { history: [], sprintCount: 0, average: 0, min: 0, max: 0 },
+    [velocityByProject, velocityProject]
+  );
+  const velocityScope = velocityProjects.length > 1 && velocityProject ? ` in ${velocityProject}` : '';
+
+  const memberVelocity = useMemo(() => team
+    .map(member => ({ member, ...getMemberVelocity(velocity.history, member.id) }))
+    .filter(v => v.max > 0)
+    .sort((a, b) => b.average - a.average),
+  [team, velocity]);
+
+  const velocityChartData = useMemo(() => velocity.history.map(h => ({
+    name: h.name,
+    completed: h.completed,
+    average: h.average,
+    band: [h.min, h.max]
+  })), [velocity]);
 
   const forecastData = useMemo(() => {
+    // Forecast only looks ahead: closed sprints are history
     // Ensure sprints are sorted by date
-    const sortedSprints = [...sprints].sort((a, b) => 
+    const sortedSprints = sprints.filter(s => s.state !== 'closed').sort((a, b) => 
       new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
     );
 
-    const totalTeamCapacity = team.reduce((acc, t) => acc + t.capacityPerSprint, 0);
-
     return sortedSprints.map(sprint => {
-      const sprintLoad = issues
-        .filter(i => i.sprintId === sprint.id)
-        .reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+      const sprintLoad = sumLoad(issues.filter(i => i.sprintId === sprint.id), unit, getCommittedLoad);
+      // Sprint length, holidays and time off all shrink what the team can take on
+      const totalTeamCapacity = getTeamSprintCapacity(team, sprint, timeOff, capacitySnapshots);
+      // What the team actually finishes beats what it's nominally available for; fall back until there's history
+      // Each project's sprints are forecast from that project's own closed sprints
+      const projectVelocity = velocityByProject.get(sprint.projectKey || '');
+      const history = projectVelocity && projectVelocity.sprintCount > 0 ? projectVelocity : null;
+      const capacity = history ? history.average : totalTeamCapacity;
       
       return {
         name: sprint.name,
-        capacity: totalTeamCapacity,
+        capacity,
+        plannedCapacity: totalTeamCapacity,
+        velocityBand: history ? [history.min, history.max] : undefined,
         workload: sprintLoad,
-        isBreach: sprintLoad > totalTeamCapacity
+        isBreach: sprintLoad > capacity
       };
     });
-  }, [sprints, issues, team]);
+  }, [sprints, issues, team, timeOff, capacitySnapshots, unit, velocityByProject]);
 
   const atRiskMembers = burnoutData.filter(d => d.isRisk);
 
@@ -133,7 +211,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
             </div>
           </div>
           <div className="mt-2 text-xs text-slate-500">
-            {stats.activeSprintPoints} / {stats.totalSprintCapacity} pts utilized
+            {stats.activeSprintPoints} / {stats.totalSprintCapacity} {unitLabel} utilized
           </div>
         </div>
 
@@ -157,7 +235,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
             <div>
               <p className="text-sm font-medium text-slate-500">Completion Rate</p>
               <h3 className="text-2xl font-bold text-slate-900">
-                {issues.length > 0 ? Math.round((stats.completedPoints / stats.totalPoints) * 100) : 0}%
+                {stats.totalPoints > 0 ? Math.round((stats.completedPoints / stats.totalPoints) * 100) : 0}%
               </h3>
             </div>
             <div className="p-3 rounded-full bg-blue-100 text-blue-600">
@@ -165,7 +243,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
             </div>
           </div>
           <div className="mt-2 text-xs text-slate-500">
-            Based on story points
+            {unit === 'hours' ? 'Based on logged and remaining hours' : 'Based on story points'}
           </div>
         </div>
 
@@ -173,18 +251,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-slate-500">Team Velocity</p>
-              <h3 className="text-2xl font-bold text-slate-900">~{sprints.length > 0 ? Math.round(stats.totalPoints / sprints.length) : 0}</h3>
+              <h3 className="text-2xl font-bold text-slate-900">{velocity.sprintCount > 0 ? velocity.average : '–'}</h3>
             </div>
             <div className="p-3 rounded-full bg-purple-100 text-purple-600">
               <Clock size={20} />
             </div>
           </div>
           <div className="mt-2 text-xs text-slate-500">
-            Avg pts per sprint
+            {velocity.sprintCount > 0
+              ? `${unitLabel} per sprint${velocityScope} · ${velocity.min}–${velocity.max} over the last ${velocity.sprintCount} closed`
+              : 'No closed sprints yet'}
           </div>
         </div>
       </div>
 
+      {activeSprint && <SprintBurnCharts sprint={activeSprint} issues={issues} unit={unit} />}
+
       {/* Burnout Predictor Section */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Risk List */}
@@ -211,7 +293,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
                 <div key={member.name} className="bg-white p-3 rounded-lg border border-red-100 shadow-sm flex items-center justify-between">
                   <div>
                     <div className="font-semibold text-slate-900">{member.fullName}</div>
-                    <div className="text-xs text-slate-500">{member.assigned} pts assigned</div>
+                    <div className="text-xs text-slate-500">{member.assigned} {unitLabel} assigned</div>
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-bold text-red-600">{member.rawUtilization}%</div>
@@ -270,6 +352,119 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
         </div>
       </div>
 
+      {/* Utilization Trend */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[360px] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-50 text-orange-600 rounded-lg">
+              <TrendingUp size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900">Utilization Trend</h3>
+              <p className="text-sm text-slate-500">Assigned {unit === 'hours' ? 'hours' : 'points'} vs. capacity per member, sprint by sprint</p>
+            </div>
+          </div>
+        </div>
+        {trend.data.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-slate-400">
+            <TrendingUp size={32} className="mb-2 opacity-50" />
+            <p className="text-sm">History builds up while sprints are active.</p>
+          </div>
+        ) : (
+          <div className="flex-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend.data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis unit="%" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <ReferenceLine y={85} stroke="#ef4444" strokeDasharray="3 3" />
+                {trend.members.map((member, idx) => (
+                  <Line 
+                    key={member.id} 
+                    type="monotone" 
+                    dataKey={member.id} 
+                    name={member.name} 
+                    stroke={TREND_COLORS[idx % TREND_COLORS.length]} 
+                    strokeWidth={2} 
+                    dot={{ r: 3 }} 
+                    connectNulls 
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {/* Velocity History */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[360px] flex flex-col">
+          <div className="flex items-start justify-between gap-3 mb-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-purple-50 text-purple-600 rounded-lg">
+                <Gauge size={20} />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-slate-900">Velocity History</h3>
+                <p className="text-sm text-slate-500">Completed {unit === 'hours' ? 'hours' : 'points'} per closed sprint, with the rolling average and its min/max band</p>
+              </div>
+            </div>
+            {/* Each project runs its own sprints, so velocity is shown one project at a time */}
+            {velocityProjects.length > 1 && (
+              <select
+                value={velocityProject}
+                onChange={(e) => setSelectedVelocityProject(e.target.value)}
+                className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white shrink-0"
+              >
+                {velocityProjects.map(key => <option key={key} value={key}>{key || 'No project'}</option>)}
+              </select>
+            )}
+          </div>
+          {velocityChartData.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-slate-400">
+              <Gauge size={32} className="mb-2 opacity-50" />
+              <p className="text-sm">Velocity appears once sprints have been closed.</p>
+            </div>
+          ) : (
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={velocityChartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Area type="monotone" dataKey="band" name="Min / max" fill="#ede9fe" stroke="none" />
+                  <Bar dataKey="completed" name="Completed" fill="#a78bfa" radius={[4, 4, 0, 0]} barSize={28} />
+                  <Line type="monotone" dataKey="average" name="Rolling average" stroke="#7c3aed" strokeWidth={2} dot={{ r: 3 }} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[360px] flex flex-col">
+          <h3 className="text-lg font-bold text-slate-900 mb-4">Velocity by Member{velocityScope}</h3>
+          {memberVelocity.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-slate-400">No completed work in closed sprints.</div>
+          ) : (
+            <div className="flex-1 overflow-y-auto divide-y divide-slate-50">
+              {memberVelocity.map(v => (
+                <div key={v.member.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-slate-700">{v.member.name}</span>
+                  <span>
+                    <span className="font-bold text-slate-900">{v.average}</span>
+                    <span className="text-xs text-slate-400 ml-1">{unitLabel} ({v.min}–{v.max})</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Capacity Forecast Chart */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
         <div className="flex items-center justify-between mb-6">
@@ -279,13 +474,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
             </div>
             <div>
               <h3 className="text-lg font-bold text-slate-900">Capacity Forecast</h3>
-              <p className="text-sm text-slate-500">Projected workload vs. total team capacity</p>
+              <p className="text-sm text-slate-500">Projected workload vs. rolling velocity (planned capacity until sprints have closed)</p>
             </div>
           </div>
           <div className="flex items-center gap-4 text-xs">
               <div className="flex items-center gap-2">
                   <div className="w-5 h-0.5 bg-red-500 border-t-2 border-dashed border-red-500"></div>
-                  <span className="text-slate-600 font-medium">Capacity Threshold</span>
+                  <span className="text-slate-600 font-medium">Velocity Threshold</span>
+              </div>
+              <div className="flex items-center gap-2">
+                  <div className="w-5 h-0.5 border-t-2 border-dotted border-slate-400"></div>
+                  <span className="text-slate-600 font-medium">Planned Capacity</span>
               </div>
               <div className="flex items-center gap-2">
                   <div className="w-3 h-3 bg-blue-600 rounded-full"></div>
@@ -299,16 +498,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
             <ComposedChart data={forecastData} margin={{ top: 10, right: 30, left: 20, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
               <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
-              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} label={{ value: 'Story Points', angle: -90, position: 'insideLeft', style: { fill: '#94a3b8' } }} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} label={{ value: unit === 'hours' ? 'Hours' : 'Story Points', angle: -90, position: 'insideLeft', style: { fill: '#94a3b8' } }} />
               <Tooltip 
                   contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                   cursor={{ stroke: '#cbd5e1', strokeDasharray: '4 4' }}
               />
+              {/* Velocity range */}
+              <Area 
+                  type="step" 
+                  dataKey="velocityBand" 
+                  name="Velocity Range" 
+                  fill="#fee2e2" 
+                  stroke="none" 
+              />
+              {/* Planned capacity from working days, time off and overrides */}
+              <Line 
+                  type="step" 
+                  dataKey="plannedCapacity" 
+                  name="Planned Capacity"
+                  stroke="#94a3b8" 
+                  strokeWidth={1.5} 
+                  strokeDasharray="2 4" 
+                  dot={false} 
+                  activeDot={false}
+              />
               {/* Capacity Threshold Line */}
               <Line 
                   type="step" 
                   dataKey="capacity" 
-                  name="Total Capacity"
+                  name="Forecast Capacity"
                   stroke="#ef4444" 
                   strokeWidth={2} 
                   strokeDasharray="5 5" 
@@ -344,6 +562,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ issues, team, sprints }) =
         </div>
       </div>
 
+      <DeliveryForecast issues={issues} sprints={sprints} unit={unit} />
+
       {/* Bottom Chart Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[300px]">
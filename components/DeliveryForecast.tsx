@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { JiraIssue, Sprint, CapacityUnit } from '../types';
+import { UNIT_LABELS } from '../services/capacityService';
+import { forecastDelivery, DeliveryForecast as Forecast, CONFIDENCE_LEVELS, SIMULATION_RUNS } from '../services/forecastService';
+import { Dices } from 'lucide-react';
+
+interface DeliveryForecastProps {
+  issues: JiraIssue[];
+  sprints: Sprint[];
+  unit: CapacityUnit;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const DeliveryForecast: React.FC<DeliveryForecastProps> = ({ issues, sprints, unit }) => {
+  const [scope, setScope] = useState<'projects' | 'epics'>('projects');
+  const unitLabel = UNIT_LABELS[unit];
+
+  const forecast = useMemo(() => forecastDelivery(issues, sprints, unit), [issues, sprints, unit]);
+  const rows = scope === 'projects' ? forecast.projects : forecast.epics;
+
+  const renderDates = (row: Forecast) => {
+    if (row.openIssues === 0) {
+      return <td colSpan={CONFIDENCE_LEVELS.length} className="py-2 px-4 text-right text-green-600 font-medium">Done</td>;
+    }
+    if (!row.dates || !row.sprints) {
+      return (
+        <td colSpan={CONFIDENCE_LEVELS.length} className="py-2 px-4 text-right text-slate-400 text-xs">
+          Needs completed work in closed sprints
+        </td>
+      );
+    }
+    return CONFIDENCE_LEVELS.map(level => (
+      <td key={level} className="py-2 px-4 text-right whitespace-nowrap">
+        <span className={`font-medium ${level === 85 ? 'text-slate-900' : 'text-slate-600'}`}>{formatDate(row.dates![level])}</span>
+        <span className="block text-[10px] text-slate-400">{row.sprints![level]} sprint{row.sprints![level] === 1 ? '' : 's'}</span>
+      </td>
+    ));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg">
+            <Dices size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-900">Delivery Forecast</h3>
+            <p className="text-sm text-slate-500">
+              {SIMULATION_RUNS.toLocaleString()} simulations resampling each project's closed-sprint throughput, burning down the backlog in sprint and priority order
+            </p>
+          </div>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-0.5 shrink-0">
+          {(['projects', 'epics'] as const).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setScope(key)}
+              className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${
+                scope === key ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8 text-slate-400 text-sm border-t border-slate-100">
+          {scope === 'epics' ? 'No open issues belong to an epic.' : 'No issues loaded.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto max-h-96 border-t border-slate-100">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500 bg-slate-50 sticky top-0">
+              <tr>
+                <th className="text-left py-2 px-4">{scope === 'epics' ? 'Epic' : 'Project'}</th>
+                <th className="text-right py-2 px-4">Remaining</th>
+                {CONFIDENCE_LEVELS.map(level => (
+                  <th key={level} className="text-right py-2 px-4">{level}% by</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {rows.map(row => (
+                <tr key={`${row.projectKey || ''}:${row.key}`} className="hover:bg-slate-50">
+                  <td className="py-2 px-4">
+                    <div className="font-medium text-slate-800 truncate max-w-xs">{row.label}</div>
+                    {scope === 'epics' && (
+                      <div className="text-xs text-slate-400 font-mono">{row.key}</div>
+                    )}
+                  </td>
+                  <td className="py-2 px-4 text-right whitespace-nowrap text-slate-600">
+                    {row.remaining} {unitLabel}
+                    <span className="block text-[10px] text-slate-400">{row.openIssues} open</span>
+                  </td>
+                  {renderDates(row)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useMemo } from 'react';
+import { JiraIssue, TeamMember, Sprint, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { UNIT_LABELS, toDateKey, parseDateKey } from '../services/capacityService';
+import { buildEpicRoadmap, EpicTargets, EpicRoadmapRow } from '../services/roadmapService';
+import { DAY_MS } from '../services/flowService';
+import { GanttChart, Hourglass, AlertTriangle, Info } from 'lucide-react';
+
+interface EpicRoadmapProps {
+  team: TeamMember[];
+  issues: JiraIssue[];
+  sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
+  targets: EpicTargets;
+  onTargetChange: (epicKey: string, date: string | undefined) => void;
+}
+
+const formatDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Last moment of a YYYY-MM-DD target day
+const targetMs = (key: string) => parseDateKey(key).getTime() + DAY_MS - 1;
+
+export const EpicRoadmap: React.FC<EpicRoadmapProps> = ({
+  team, issues, sprints, timeOff, capacitySnapshots, unit, targets, onTargetChange
+}) => {
+  const unitLabel = UNIT_LABELS[unit];
+
+  const rows = useMemo(
+    () => buildEpicRoadmap(issues, sprints, team, unit, { timeOff, snapshots: capacitySnapshots, targets }),
+    [issues, sprints, team, unit, timeOff, capacitySnapshots, targets]
+  );
+
+  // Shared time axis: earliest start to the latest finish, target or today
+  const axis = useMemo(() => {
+    const now = Date.now();
+    const points = rows.flatMap(r => [
+      new Date(r.startDate).getTime(),
+      r.finishDate ? new Date(r.finishDate).getTime() : now,
+      r.targetDate ? targetMs(r.targetDate) : now
+    ]);
+    const start = Math.min(now, ...points);
+    const end = Math.max(now, ...points);
+    const span = Math.max(end - start, DAY_MS);
+
+    const months: { label: string; offset: number }[] = [];
+    const cursor = new Date(new Date(start).getFullYear(), new Date(start).getMonth() + 1, 1);
+    for (; cursor.getTime() <= end; cursor.setMonth(cursor.getMonth() + 1)) {
+      months.push({
+        label: cursor.toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+        offset: ((cursor.getTime() - start) / span) * 100
+      });
+    }
+    return { start, span, today: ((now - start) / span) * 100, months };
+  }, [rows]);
+
+  const toOffset = (ms: number) => ((ms - axis.start) / axis.span) * 100;
+
+  const openCount = rows.filter(r => !r.isDone).length;
+  const slippingCount = rows.filter(r => r.slips).length;
+  const unreachableCount = rows.filter(r => !r.isDone && !r.finishSprint).length;
+
+  const renderBar = (row: EpicRoadmapRow) => {
+    const startMs = new Date(row.startDate).getTime();
+    const endMs = row.finishDate ? new Date(row.finishDate).getTime() : axis.start + axis.span;
+    const left = toOffset(startMs);
+    const width = Math.max(toOffset(endMs) - left, 1);
+    const [track, fill] = row.isDone
+      ? ['bg-green-100', 'bg-green-500']
+      : row.slips ? ['bg-red-100', 'bg-red-500'] : ['bg-blue-100', 'bg-blue-500'];
+
+    return (
+      <div className="relative h-6">
+        <div
+          className={`absolute top-1 h-4 rounded overflow-hidden ${row.finishDate ? track : 'bg-slate-200'}`}
+          style={{ left: `${left}%`, width: `${width}%` }}
+          title={`${formatDate(startMs)} – ${row.finishDate ? formatDate(endMs) : 'beyond forecast'}`}
+        >
+          <div className={`h-full ${fill}`} style={{ width: `${row.percentDone}%` }}></div>
+        </div>
+        {row.targetDate && (
+          <div
+            className="absolute top-0 h-6 border-l-2 border-dashed border-slate-700"
+            style={{ left: `${toOffset(targetMs(row.targetDate))}%` }}
+            title={`Target ${formatDate(targetMs(row.targetDate))}`}
+          ></div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Open Epics</p>
+              <h3 className="text-2xl font-bold text-slate-900 mt-1">{openCount}</h3>
+            </div>
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <GanttChart className="w-5 h-5 text-blue-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{rows.length - openCount} of {rows.length} epics complete</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Slipping Past Target</p>
+              <h3 className={`text-2xl font-bold mt-1 ${slippingCount > 0 ? 'text-red-600' : 'text-slate-900'}`}>{slippingCount}</h3>
+            </div>
+            <div className="p-2 bg-red-50 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-red-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Finish after the target date, or out of reach</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Beyond Forecast</p>
+              <h3 className={`text-2xl font-bold mt-1 ${unreachableCount > 0 ? 'text-amber-600' : 'text-slate-900'}`}>{unreachableCount}</h3>
+            </div>
+            <div className="p-2 bg-amber-50 rounded-lg">
+              <Hourglass className="w-5 h-5 text-amber-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Open epics the team's capacity never reaches</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Epic Roadmap</h3>
+          <p className="text-xs text-slate-500">
+            Finish sprints fill each project's sprints with team capacity, working the backlog in sprint and priority order.
+            Sprints past the ones in Jira are projected at the usual sprint length.
+          </p>
+        </div>
+        {rows.length === 0 ? (
+          <div className="text-center py-10 text-slate-400 text-sm">
+            <Info className="mx-auto mb-2 opacity-50" />
+            No issues belong to an epic.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="text-left py-2 px-4">Epic</th>
+                  <th className="text-right py-2 px-4">Issues</th>
+                  <th className="text-left py-2 px-4">Done</th>
+                  <th className="text-right py-2 px-4">Remaining</th>
+                  <th className="text-left py-2 px-4">Finish</th>
+                  <th className="text-left py-2 px-4">Target</th>
+                  <th className="py-2 px-4 min-w-[320px]">
+                    <div className="relative h-4">
+                      {axis.months.map(m => (
+                        <span key={m.label} className="absolute text-[10px] font-normal -translate-x-1/2" style={{ left: `${m.offset}%` }}>
+                          {m.label}
+                        </span>
+                      ))}
+                    </div>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(row => (
+                  <tr key={`${row.projectKey || ''}:${row.key}`} className={row.slips ? 'bg-red-50/60' : 'hover:bg-slate-50'}>
+                    <td className="py-2 px-4">
+                      <div className="font-medium text-slate-800 truncate max-w-xs" title={row.label}>{row.label}</div>
+                      <div className="text-xs text-slate-400 font-mono">{row.key}</div>
+                    </td>
+                    <td className="py-2 px-4 text-right whitespace-nowrap text-slate-600">
+                      {row.doneCount}/{row.childCount}
+                    </td>
+                    <td className="py-2 px-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-green-500" style={{ width: `${row.percentDone}%` }}></div>
+                        </div>
+                        <span className="text-xs text-slate-600">{row.percentDone}%</span>
+                      </div>
+                      <span className="block text-[10px] text-slate-400">{row.donePoints}/{row.totalPoints} pts</span>
+                    </td>
+                    <td className="py-2 px-4 text-right whitespace-nowrap text-slate-600">
+                      {row.remaining} {unitLabel}
+                      {unit === 'points' && <span className="block text-[10px] text-slate-400">{row.remainingHours}h estimated</span>}
+                    </td>
+                    <td className="py-2 px-4 whitespace-nowrap">
+                      {row.isDone ? (
+                        <span className="text-green-600 font-medium">Done</span>
+                      ) : row.finishSprint ? (
+                        <>
+                          <span className={`font-medium ${row.slips ? 'text-red-600' : 'text-slate-800'}`}>
+                            {row.finishSprint.name}
+                          </span>
+                          <span className="block text-[10px] text-slate-400">
+                            {row.finishSprint.isProjected ? 'Projected, ends ' : 'Ends '}
+                            {formatDate(new Date(row.finishSprint.endDate).getTime())}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-xs text-amber-600">No capacity</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 whitespace-nowrap">
+                      <input
+                        type="date"
+                        value={row.targetDate || ''}
+                        onChange={(e) => onTargetChange(row.key, e.target.value || undefined)}
+                        className={`text-xs border rounded-lg px-2 py-1 ${row.slips ? 'border-red-300 text-red-700' : 'border-slate-200'}`}
+                      />
+                      {row.slips && row.targetDate && (
+                        <span className="block text-[10px] text-red-600 font-medium">
+                          {row.finishDate
+                            ? `${Math.ceil((new Date(row.finishDate).getTime() - targetMs(row.targetDate)) / DAY_MS)}d late`
+                            : 'Out of reach'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 relative">
+                      <div
+                        className="absolute top-0 bottom-0 border-l border-blue-200"
+                        style={{ left: `calc(1rem + (100% - 2rem) * ${axis.today / 100})` }}
+                        title={`Today, ${toDateKey(new Date())}`}
+                      ></div>
+                      {renderBar(row)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,81 @@
 import React, { useState } from 'react';
 import { Button } from './Button';
-import { JiraConfig, TeamMember, JiraIssue, Sprint } from '../types';
-import { JiraService } from '../services/jiraService';
-import { Link, Lock, Globe, Mail, Box, ShieldCheck, FileJson, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { JiraConfig, JiraDeployment, TeamMember, JiraIssue, Sprint, SyncProgress, JiraField, JiraFieldCandidates, JiraBoard } from '../types';
+import { JiraService, createJiraService, getUserId, DEFAULT_MAX_ISSUES, DEFAULT_CLOSED_SPRINT_HISTORY } from '../services/jiraService';
+import { 
+  JiraAuthError, JiraNotFoundError, JiraRateLimitError, JiraNetworkError 
+} from '../services/jiraErrors';
+import { Link, Lock, Globe, Mail, Box, ShieldCheck, FileJson, AlertTriangle, CheckCircle2, Layers, SlidersHorizontal, Kanban, Cloud, Server, Network } from 'lucide-react';
 
 interface JiraConnectProps {
   onConnect: (config: JiraConfig) => Promise<boolean>;
   onManualImport: (data: { team: TeamMember[], issues: JiraIssue[], sprints: Sprint[] }) => void;
   isLoading: boolean;
+  progress?: SyncProgress | null;
+  fieldCandidates?: JiraFieldCandidates | null;
   onCancel: () => void;
 }
 
-export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImport, isLoading, onCancel }) => {
+interface ConnectError {
+  message: string;
+  title?: string;
+  hint?: string;
+}
+
+const DEPLOYMENTS: { value: JiraDeployment; label: string; icon: React.ElementType }[] = [
+  { value: 'cloud', label: 'Jira Cloud', icon: Cloud },
+  { value: 'datacenter', label: 'Server / Data Center', icon: Server }
+];
+
+// Explain typed Jira errors with a headline and what to check next
+const describeError = (err: any, fallback: string): ConnectError => {
+  const message = err?.message || fallback;
+  if (err instanceof JiraAuthError) {
+    return { message, title: 'Authentication failed', hint: 'Check the email and API token (or personal access token on Data Center), and that your account can browse this project.' };
+  }
+  if (err instanceof JiraNotFoundError) {
+    return { message, title: 'Not found', hint: 'Check the domain URL, the project key and the selected boards.' };
+  }
+  if (err instanceof JiraRateLimitError) {
+    const wait = err.retryAfterSeconds ? `${err.retryAfterSeconds} seconds` : 'a minute';
+    return { message, title: 'Rate limited by Jira', hint: `Jira is throttling requests. Try again in ${wait}.` };
+  }
+  if (err instanceof JiraNetworkError) {
+    return { message, title: 'Network error', hint: 'Jira could not be reached. Check your connection, that your proxy is running, or toggle the CORS proxy setting.' };
+  }
+  return { message };
+};
+
+export const JiraConnect: React.FC<JiraConnectProps> = ({ 
+  onConnect, onManualImport, isLoading, progress, fieldCandidates, onCancel 
+}) => {
   const [mode, setMode] = useState<'api' | 'manual'>('api');
   
   // API Config State
   const [config, setConfig] = useState<JiraConfig>({
     domain: 'https://your-domain.atlassian.net',
+    deployment: 'cloud',
     email: '',
     apiToken: '',
     projectKey: '',
-    useProxy: true
+    useProxy: false,
+    maxIssues: DEFAULT_MAX_ISSUES,
+    closedSprintHistory: DEFAULT_CLOSED_SPRINT_HISTORY
   });
+
+  // Boards available for the project, loaded on demand with the entered credentials
+  const [boards, setBoards] = useState<JiraBoard[] | null>(null);
+  const [isLoadingBoards, setIsLoadingBoards] = useState(false);
   
   // Manual Import State
   const [manualDomain, setManualDomain] = useState('https://your-domain.atlassian.net');
   const [manualProjectKey, setManualProjectKey] = useState('PROJ');
   const [jsonInput, setJsonInput] = useState('');
   
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ConnectError | null>(null);
+
+  // Data Center authenticates with a personal access token alone
+  const isDataCenter = config.deployment === 'datacenter';
 
   const handleApiSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,10 +83,34 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
     try {
       await onConnect(config);
     } catch (err: any) {
-      setError(err.message || "Connection failed. Please check your credentials.");
+      setError(describeError(err, "Connection failed. Please check your credentials."));
     }
   };
 
+  const handleLoadBoards = async () => {
+    setError(null);
+    setIsLoadingBoards(true);
+    try {
+      const fetchedBoards = await createJiraService(config).getBoards();
+      setBoards(fetchedBoards);
+      // Preselect the first scrum board, matching the default when nothing is chosen
+      const firstScrum = fetchedBoards.find(b => b.type === 'scrum') || fetchedBoards[0];
+      setConfig({ ...config, boardIds: firstScrum ? [firstScrum.id] : [] });
+    } catch (err: any) {
+      setError(describeError(err, "Failed to load boards."));
+    } finally {
+      setIsLoadingBoards(false);
+    }
+  };
+
+  const toggleBoard = (boardId: string) => {
+    const selected = config.boardIds || [];
+    const boardIds = selected.includes(boardId)
+      ? selected.filter(id => id !== boardId)
+      : [...selected, boardId];
+    setConfig({ ...config, boardIds });
+  };
+
   const handleManualSubmit = () => {
     try {
       const data = JSON.parse(jsonInput);
@@ -60,9 +131,10 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
       if (data.issues) {
         data.issues.forEach((i: any) => {
           const assignee = i.fields.assignee;
-          if (assignee && assignee.accountId) {
-            uniqueAssignees.set(assignee.accountId, {
-              id: assignee.accountId,
+          const assigneeId = getUserId(assignee);
+          if (assigneeId) {
+            uniqueAssignees.set(assigneeId, {
+              id: assigneeId,
               name: assignee.displayName,
               role: 'Developer',
               avatar: assignee.avatarUrls?.['48x48'] || '',
@@ -88,10 +160,42 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
       });
 
     } catch (err: any) {
-      setError(err.message || "Failed to parse JSON.");
+      setError({ message: err.message || "Failed to parse JSON." });
     }
   };
 
+  // Field ID override: a picker when detection was ambiguous, otherwise free text (blank = auto-detect)
+  const renderFieldOverride = (
+    label: string,
+    value: string | undefined,
+    candidates: JiraField[] | undefined,
+    onChange: (value: string | undefined) => void
+  ) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-700 mb-1">{label}</label>
+      {candidates && candidates.length > 1 ? (
+        <select
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className={`w-full rounded border text-sm px-2 py-1.5 ${value ? 'border-slate-300' : 'border-amber-400 bg-amber-50'}`}
+        >
+          <option value="">Choose a field...</option>
+          {candidates.map(f => (
+            <option key={f.id} value={f.id}>{f.name} ({f.id})</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value.trim() || undefined)}
+          className="w-full rounded border border-slate-300 text-sm px-2 py-1.5 font-mono"
+          placeholder="Auto-detect"
+        />
+      )}
+    </div>
+  );
+
   const getSearchUrl = () => {
     const baseUrl = manualDomain.replace(/\/$/, '');
     const jql = `project = ${manualProjectKey} AND statusCategory != Done ORDER BY rank`;
@@ -133,12 +237,33 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
         {error && (
           <div className="mb-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100 break-words flex items-start gap-2">
             <AlertTriangle size={16} className="mt-0.5 shrink-0" />
-            <span>{error}</span>
+            <div>
+              {error.title && <p className="font-semibold">{error.title}</p>}
+              <p>{error.message}</p>
+              {error.hint && <p className="text-xs text-red-500 mt-1">{error.hint}</p>}
+            </div>
           </div>
         )}
 
         {mode === 'api' ? (
           <form onSubmit={handleApiSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Deployment</label>
+              <div className="grid grid-cols-2 gap-2">
+                {DEPLOYMENTS.map(({ value, label, icon: Icon }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => { setConfig({ ...config, deployment: value }); setBoards(null); }}
+                    className={`flex items-center justify-center gap-2 py-2 rounded-lg border text-sm font-medium transition-colors ${config.deployment === value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <Icon size={16} />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Jira Domain URL</label>
               <div className="relative">
@@ -149,30 +274,36 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
                   value={config.domain}
                   onChange={(e) => setConfig({ ...config, domain: e.target.value })}
                   className="pl-9 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="https://company.atlassian.net"
+                  placeholder={isDataCenter ? 'https://jira.company.com' : 'https://company.atlassian.net'}
                 />
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">Email Address</label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
-                <input
-                  type="email"
-                  required
-                  value={config.email}
-                  onChange={(e) => setConfig({ ...config, email: e.target.value })}
-                  className="pl-9 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="you@company.com"
-                />
+            {!isDataCenter && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Email Address</label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+                  <input
+                    type="email"
+                    required
+                    value={config.email}
+                    onChange={(e) => setConfig({ ...config, email: e.target.value })}
+                    className="pl-9 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="you@company.com"
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">
-                API Token 
-                <a href="https://id.atlassian.com/manage-profile/security/api-tokens" target="_blank" rel="noreferrer" className="ml-2 text-blue-600 hover:underline text-xs">(Get Token)</a>
+                {isDataCenter ? 'Personal Access Token' : 'API Token'}
+                {isDataCenter ? (
+                  <span className="ml-2 text-slate-400 text-xs">(Profile → Personal Access Tokens)</span>
+                ) : (
+                  <a href="https://id.atlassian.com/manage-profile/security/api-tokens" target="_blank" rel="noreferrer" className="ml-2 text-blue-600 hover:underline text-xs">(Get Token)</a>
+                )}
               </label>
               <div className="relative">
                 <Lock className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
@@ -185,6 +316,9 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
                   placeholder="••••••••••••••••••••••••"
                 />
               </div>
+              <p className="mt-1 text-xs text-slate-500">
+                Kept for this browser session only and never saved with the workspace. You'll be asked for it again after closing the tab.
+              </p>
             </div>
 
             <div>
@@ -202,7 +336,117 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
               </div>
             </div>
 
-            <div className="p-3 bg-blue-50 rounded-lg border border-blue-100">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Max Issues to Load</label>
+              <div className="relative">
+                <Layers className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={config.maxIssues}
+                  onChange={(e) => setConfig({ ...config, maxIssues: parseInt(e.target.value) || DEFAULT_MAX_ISSUES })}
+                  className="pl-9 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <p className="text-xs text-slate-500 mt-1">Most recently updated issues are loaded first.</p>
+            </div>
+
+            <div className="p-3 rounded-lg border border-slate-200 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                  <Kanban size={16} className="text-slate-400" />
+                  Boards & Sprints
+                </div>
+                <Button 
+                  type="button" 
+                  size="sm" 
+                  variant="outline" 
+                  onClick={handleLoadBoards} 
+                  disabled={isLoadingBoards || !config.projectKey || !config.apiToken}
+                >
+                  {isLoadingBoards ? 'Loading...' : 'Load Boards'}
+                </Button>
+              </div>
+
+              {boards === null ? (
+                <p className="text-xs text-slate-500">Uses the project's first board unless you load and pick boards.</p>
+              ) : boards.length === 0 ? (
+                <p className="text-xs text-slate-500">No boards found for this project.</p>
+              ) : (
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {boards.map(board => (
+                    <label key={board.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={config.boardIds?.includes(board.id) || false}
+                        onChange={() => toggleBoard(board.id)}
+                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="truncate">{board.name}</span>
+                      <span className="text-[10px] uppercase text-slate-400">{board.type}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-medium text-slate-700">Closed sprints to include</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={config.closedSprintHistory}
+                  onChange={(e) => setConfig({ ...config, closedSprintHistory: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-16 rounded border border-slate-300 text-sm px-2 py-1"
+                />
+                <span className="text-xs text-slate-400">per board</span>
+              </div>
+            </div>
+
+            <div className="p-3 rounded-lg border border-slate-200 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <SlidersHorizontal size={16} className="text-slate-400" />
+                Custom Fields
+              </div>
+              {fieldCandidates && (
+                <p className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded p-2">
+                  Several fields on this site look like story points or sprints. Pick the ones this project uses, then connect again.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                {renderFieldOverride(
+                  'Story Points Field',
+                  config.storyPointsField,
+                  fieldCandidates?.storyPoints,
+                  (storyPointsField) => setConfig({ ...config, storyPointsField })
+                )}
+                {renderFieldOverride(
+                  'Sprint Field',
+                  config.sprintField,
+                  fieldCandidates?.sprint,
+                  (sprintField) => setConfig({ ...config, sprintField })
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Proxy URL <span className="text-slate-400 font-normal">(optional)</span></label>
+              <div className="relative">
+                <Network className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={config.proxyUrl || ''}
+                  onChange={(e) => setConfig({ ...config, proxyUrl: e.target.value.trim() || undefined })}
+                  className="pl-9 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="http://localhost:8787"
+                />
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                Your own proxy, started with <code className="font-mono">npm run proxy</code>. Requests and credentials only go to it.
+              </p>
+            </div>
+
+            <div className={`p-3 bg-blue-50 rounded-lg border border-blue-100 ${config.proxyUrl ? 'opacity-50' : ''}`}>
               <label className="flex items-start gap-3 cursor-pointer">
                 <div className="pt-0.5 text-blue-600">
                   <ShieldCheck size={18} />
@@ -211,18 +455,36 @@ export const JiraConnect: React.FC<JiraConnectProps> = ({ onConnect, onManualImp
                   <div className="flex items-center gap-2">
                      <input
                       type="checkbox"
-                      checked={config.useProxy}
+                      checked={config.useProxy && !config.proxyUrl}
+                      disabled={!!config.proxyUrl}
                       onChange={(e) => setConfig({ ...config, useProxy: e.target.checked })}
                       className="rounded border-blue-300 text-blue-600 focus:ring-blue-500 mt-0.5"
                     />
-                    <span className="text-sm font-medium text-blue-900">Use CORS Proxy</span>
+                    <span className="text-sm font-medium text-blue-900">Use Public CORS Proxy</span>
                   </div>
                   <p className="text-xs text-blue-700 mt-1">
-                    Routes via public proxies to bypass browser restrictions. Uncheck if you use a local proxy or browser extension.
+                    Routes via third-party proxies, which see your credentials. Prefer a Proxy URL above; ignored when one is set.
                   </p>
                 </div>
               </label>
             </div>
+
+            {isLoading && progress && (
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="flex justify-between text-xs text-slate-600 mb-1.5">
+                  <span>{progress.label}...</span>
+                  <span className="font-mono">
+                    {progress.loaded} / {progress.total}
+                  </span>
+                </div>
+                <div className="h-2 w-full bg-slate-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 rounded-full transition-all duration-300"
+                    style={{ width: `${Math.min(100, (progress.loaded / Math.max(1, progress.total)) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
           </form>
         ) : (
           <div className="space-y-4">
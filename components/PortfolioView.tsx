@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { JiraIssue, TeamMember, Sprint, Status, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import {
+  getTeamSprintCapacity, getMemberAllocations, getProjectAllocation, getCommittedLoad, sumLoad, round1, UNIT_LABELS
+} from '../services/capacityService';
+import { Bar, BarChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Briefcase, Info, RotateCcw } from 'lucide-react';
+
+interface PortfolioViewProps {
+  projects: string[];
+  team: TeamMember[];
+  issues: JiraIssue[];
+  sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
+  onAllocationChange: (memberId: string, allocations: Record<string, number> | undefined) => void;
+}
+
+export const PortfolioView: React.FC<PortfolioViewProps> = ({
+  projects, team, issues, sprints, timeOff, capacitySnapshots, unit, onAllocationChange
+}) => {
+  const unitLabel = UNIT_LABELS[unit];
+
+  // Capacity vs demand per project across its active and future sprints
+  const rows = useMemo(() => projects.map(projectKey => {
+    const openSprints = sprints.filter(s => s.projectKey === projectKey && s.state !== 'closed');
+    const openSprintIds = new Set(openSprints.map(s => s.id));
+    const projectIssues = issues.filter(i => i.projectKey === projectKey);
+
+    const sprintCapacity = round1(openSprints.reduce(
+      (acc, sprint) => acc + getTeamSprintCapacity(team, sprint, timeOff, capacitySnapshots), 0
+    ));
+    const committed = sumLoad(projectIssues.filter(i => i.sprintId && openSprintIds.has(i.sprintId)), unit, getCommittedLoad);
+    const backlog = sumLoad(projectIssues.filter(i => !i.sprintId && i.status !== Status.DONE), unit);
+    // Full two-week sprint with everyone in, before time off
+    const perSprint = round1(team.reduce((acc, m) => acc + m.capacityPerSprint * getProjectAllocation(m, projectKey), 0));
+
+    return {
+      name: projectKey,
+      sprintCount: openSprints.length,
+      perSprint,
+      capacity: sprintCapacity,
+      committed,
+      backlog,
+      utilization: sprintCapacity > 0 ? Math.round((committed / sprintCapacity) * 100) : 0
+    };
+  }), [projects, team, issues, sprints, timeOff, capacitySnapshots, unit]);
+
+  if (projects.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-10 text-center text-slate-400">
+        <Info className="mx-auto mb-2 opacity-50" />
+        <p className="text-slate-600 font-medium">No connected projects</p>
+        <p className="text-sm">Connect one or more Jira projects to split the team between them and compare capacity with demand.</p>
+      </div>
+    );
+  }
+
+  const handlePercentChange = (member: TeamMember, projectKey: string, value: string) => {
+    const percent = Math.min(100, Math.max(0, parseFloat(value) || 0));
+    // Start from the effective split so the other projects keep their share
+    onAllocationChange(member.id, { ...getMemberAllocations(member, projects), [projectKey]: percent });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <Briefcase className="text-blue-600" />
+          Portfolio Capacity
+        </h2>
+        <p className="text-sm text-slate-500">
+          Capacity each project gets from its share of the team, against the work committed to its open sprints and waiting in its backlog.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800 mb-4">Capacity vs Demand</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip cursor={{ fill: '#f8fafc' }} formatter={(value: number) => `${value} ${unitLabel}`} />
+                <Legend />
+                <Bar dataKey="capacity" name="Sprint capacity" fill="#10b981" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="committed" name="Committed" stackId="demand" fill="#3b82f6" />
+                <Bar dataKey="backlog" name="Backlog" stackId="demand" fill="#cbd5e1" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500 bg-slate-50 border-b border-slate-100">
+              <tr>
+                <th className="text-left py-3 px-4">Project</th>
+                <th className="text-right py-3 px-4">Per sprint</th>
+                <th className="text-right py-3 px-4">Open sprints</th>
+                <th className="text-right py-3 px-4">Committed / capacity</th>
+                <th className="text-right py-3 px-4">Backlog</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {rows.map(row => (
+                <tr key={row.name} className="hover:bg-slate-50">
+                  <td className="py-3 px-4 font-semibold text-slate-800">{row.name}</td>
+                  <td className="py-3 px-4 text-right text-slate-600">{row.perSprint} {unitLabel}</td>
+                  <td className="py-3 px-4 text-right text-slate-600">{row.sprintCount}</td>
+                  <td className="py-3 px-4 text-right">
+                    <span className={`font-bold ${row.committed > row.capacity ? 'text-red-600' : 'text-slate-800'}`}>
+                      {row.committed} / {row.capacity} {unitLabel}
+                    </span>
+                    {row.capacity > 0 && <span className="text-xs text-slate-400 ml-1">({row.utilization}%)</span>}
+                  </td>
+                  <td className="py-3 px-4 text-right text-slate-600">{row.backlog} {unitLabel}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Allocation matrix */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Allocation</h3>
+          <p className="text-xs text-slate-500">
+            Percent of each member's capacity per project. Without explicit values, capacity is split evenly across the projects they were synced from.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="text-left py-2 px-4">Member</th>
+                {projects.map(p => <th key={p} className="text-right py-2 px-4">{p}</th>)}
+                <th className="text-right py-2 px-4">Total</th>
+                <th className="py-2 px-4" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {team.map(member => {
+                const allocations = getMemberAllocations(member, projects);
+                const total = round1(Object.values(allocations).reduce((acc, v) => acc + v, 0));
+                const isExplicit = !!member.allocations && Object.keys(member.allocations).length > 0;
+                return (
+                  <tr key={member.id} className="hover:bg-slate-50">
+                    <td className="py-2 px-4 text-slate-700 whitespace-nowrap">{member.name}</td>
+                    {projects.map(p => (
+                      <td key={p} className="py-2 px-4 text-right whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={allocations[p]}
+                          onChange={(e) => handlePercentChange(member, p, e.target.value)}
+                          className={`w-16 px-1.5 py-0.5 text-right text-sm border rounded outline-none focus:ring-2 focus:ring-blue-500 ${
+                            isExplicit ? 'border-blue-300 bg-blue-50 text-blue-700 font-bold' : 'border-slate-200 bg-white text-slate-700'
+                          }`}
+                        />
+                        <span className="text-xs text-slate-400 ml-1">%</span>
+                      </td>
+                    ))}
+                    <td className={`py-2 px-4 text-right font-bold ${Math.abs(total - 100) > 0.5 ? 'text-amber-600' : 'text-slate-700'}`}>
+                      {total}%
+                    </td>
+                    <td className="py-2 px-4 text-right">
+                      {isExplicit && (
+                        <button
+                          onClick={() => onAllocationChange(member.id, undefined)}
+                          className="text-slate-300 hover:text-blue-600 transition-colors"
+                          title="Reset to an even split"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useMemo } from 'react';
+import { JiraIssue, TeamMember, Sprint, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { UNIT_LABELS, getOpenSprintOrder } from '../services/capacityService';
+import { SkillMappings, buildSkillMatrix, getSkillTags, getTeamSkills, resolveTagSkill } from '../services/skillService';
+import { Puzzle, AlertTriangle, UserX, Tag, Info } from 'lucide-react';
+
+interface SkillMatrixProps {
+  team: TeamMember[];
+  issues: JiraIssue[];
+  sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
+  skillMappings: SkillMappings;
+  onMappingChange: (tag: string, skill: string | undefined) => void;
+}
+
+const SKILL_LIST_ID = 'skill-matrix-skills';
+
+export const SkillMatrix: React.FC<SkillMatrixProps> = ({
+  team, issues, sprints, timeOff, capacitySnapshots, unit, skillMappings, onMappingChange
+}) => {
+  const unitLabel = UNIT_LABELS[unit];
+
+  // Same order as the planner: active first, then future sprints by start date
+  const openSprints = useMemo(() => getOpenSprintOrder(sprints), [sprints]);
+
+  const teamSkills = useMemo(() => getTeamSkills(team), [team]);
+  const tags = useMemo(() => getSkillTags(issues), [issues]);
+  const rows = useMemo(
+    () => buildSkillMatrix(team, issues, openSprints, timeOff, capacitySnapshots, skillMappings, unit),
+    [team, issues, openSprints, timeOff, capacitySnapshots, skillMappings, unit]
+  );
+
+  const busFactorCount = rows.filter(r => r.isBusFactor).length;
+  const gapCount = rows.filter(r => r.isGap).length;
+  const unmappedCount = tags.filter(t => !resolveTagSkill(t.name, skillMappings, teamSkills)).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Skills Tracked</p>
+              <h3 className="text-2xl font-bold text-slate-900 mt-1">{rows.length}</h3>
+            </div>
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <Puzzle className="w-5 h-5 text-blue-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{tags.length - unmappedCount} of {tags.length} labels and components mapped</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Bus Factor Risks</p>
+              <h3 className={`text-2xl font-bold mt-1 ${busFactorCount > 0 ? 'text-amber-600' : 'text-slate-900'}`}>{busFactorCount}</h3>
+            </div>
+            <div className="p-2 bg-amber-50 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Skills in demand that only one person holds</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500">Skill Gaps</p>
+              <h3 className={`text-2xl font-bold mt-1 ${gapCount > 0 ? 'text-red-600' : 'text-slate-900'}`}>{gapCount}</h3>
+            </div>
+            <div className="p-2 bg-red-50 rounded-lg">
+              <UserX className="w-5 h-5 text-red-600" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Skills in demand that nobody on the team holds</p>
+        </div>
+      </div>
+
+      {/* Demand vs supply */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Skill Matrix</h3>
+          <p className="text-xs text-slate-500">
+            Demand ({unitLabel} of open issues needing the skill) against supply (sprint capacity of everyone holding it).
+            An issue needing several skills counts in full for each.
+          </p>
+        </div>
+        {rows.length === 0 ? (
+          <div className="text-center py-10 text-slate-400 text-sm">
+            <Info className="mx-auto mb-2 opacity-50" />
+            Add skills to team members, or map labels and components below.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="text-left py-2 px-4">Skill</th>
+                  <th className="text-left py-2 px-4">Held by</th>
+                  {openSprints.map(s => <th key={s.id} className="text-right py-2 px-4 whitespace-nowrap">{s.name}</th>)}
+                  <th className="text-right py-2 px-4 whitespace-nowrap">Backlog</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(row => (
+                  <tr key={row.skill} className="hover:bg-slate-50">
+                    <td className="py-2 px-4 whitespace-nowrap">
+                      <span className="font-medium text-slate-800">{row.skill}</span>
+                      {row.isGap && (
+                        <span className="ml-2 text-[10px] uppercase font-bold bg-red-100 text-red-700 px-1.5 py-0.5 rounded">No one</span>
+                      )}
+                      {row.isBusFactor && (
+                        <span className="ml-2 text-[10px] uppercase font-bold bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">Bus factor 1</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-4">
+                      <div className="flex -space-x-2">
+                        {row.holders.map(m => (
+                          <img
+                            key={m.id}
+                            src={m.avatar || `https://ui-avatars.com/api/?name=${m.name}`}
+                            alt={m.name}
+                            title={m.name}
+                            className="w-6 h-6 rounded-full border-2 border-white"
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    {openSprints.map(sprint => {
+                      const cell = row.sprints[sprint.id];
+                      const isShort = cell.demand > cell.supply;
+                      return (
+                        <td key={sprint.id} className="py-2 px-4 text-right whitespace-nowrap">
+                          {cell.demand === 0 && cell.supply === 0 ? (
+                            <span className="text-slate-300">–</span>
+                          ) : (
+                            <span className={`font-bold ${isShort ? 'text-red-600' : 'text-slate-700'}`}>
+                              {cell.demand}<span className="font-normal text-slate-400"> / {cell.supply}</span>
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 px-4 text-right text-slate-500">{row.backlogDemand || '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Label / component mapping */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <datalist id={SKILL_LIST_ID}>
+          {teamSkills.map(s => <option key={s} value={s} />)}
+        </datalist>
+        <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+              <Tag size={16} className="text-slate-400" />
+              Labels & Components
+            </h3>
+            <p className="text-xs text-slate-500">Leave blank to match a team skill of the same name.</p>
+          </div>
+          {unmappedCount > 0 && (
+            <span className="bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">{unmappedCount} unmapped</span>
+          )}
+        </div>
+        {tags.length === 0 ? (
+          <div className="text-center py-8 text-slate-400 text-sm">No labels or components on the loaded issues.</div>
+        ) : (
+          <div className="overflow-y-auto max-h-96 divide-y divide-slate-50">
+            {tags.map(tag => {
+              const autoSkill = resolveTagSkill(tag.name, {}, teamSkills);
+              return (
+                <div key={`${tag.kind}:${tag.name}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${
+                    tag.kind === 'label' ? 'bg-slate-100 text-slate-600' : 'bg-purple-50 text-purple-600'
+                  }`}>
+                    {tag.kind}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate font-medium text-slate-800">{tag.name}</span>
+                  <span className="text-xs text-slate-400">{tag.issueCount} issues</span>
+                  <input
+                    type="text"
+                    list={SKILL_LIST_ID}
+                    value={skillMappings[tag.name] || ''}
+                    onChange={(e) => onMappingChange(tag.name, e.target.value || undefined)}
+                    placeholder={autoSkill || 'Unmapped'}
+                    className="w-40 text-sm border border-slate-200 rounded-lg px-2 py-1"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { JiraIssue, Sprint, CapacityUnit } from '../types';
+import { UNIT_LABELS, round1 } from '../services/capacityService';
+import { getSprintBurn } from '../services/burndownService';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingDown, PlusCircle } from 'lucide-react';
+
+interface SprintBurnChartsProps {
+  sprint: Sprint;
+  issues: JiraIssue[];
+  unit: CapacityUnit;
+}
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+// Amber dot wherever scope was added that day
+const ScopeAddedDot = (props: any) => {
+  const { cx, cy, payload } = props;
+  if (!payload.added || cx === undefined || cy === undefined) return <g />;
+  return <circle cx={cx} cy={cy} r={5} fill="#f59e0b" stroke="#fff" strokeWidth={2} />;
+};
+
+export const SprintBurnCharts: React.FC<SprintBurnChartsProps> = ({ sprint, issues, unit }) => {
+  const unitLabel = UNIT_LABELS[unit];
+  const burn = useMemo(() => getSprintBurn(sprint, issues, unit), [sprint, issues, unit]);
+  const addedTotal = burn.scopeAdded.reduce((acc, c) => acc + c.load, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-teal-50 text-teal-600 rounded-lg">
+            <TrendingDown size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-900">{sprint.name} Burndown & Burnup</h3>
+            <p className="text-sm text-slate-500">
+              {burn.initialScope} {unitLabel} committed at start
+              {burn.scopeAdded.length > 0 && `, +${round1(addedTotal)} ${unitLabel} added mid-sprint`}
+            </p>
+          </div>
+        </div>
+        {burn.scopeAdded.length > 0 && (
+          <div className="flex flex-wrap gap-1 text-xs max-w-md">
+            {burn.scopeAdded.map(c => (
+              <span key={c.issueKey} className="inline-flex items-center gap-1 bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full" title={`Added ${c.date}`}>
+                <PlusCircle size={10} /> {c.issueKey} (+{c.load})
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-[280px]">
+          <p className="text-sm font-semibold text-slate-700 mb-2">Burndown</p>
+          <ResponsiveContainer width="100%" height="90%">
+            <ComposedChart data={burn.points} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" stroke="#64748b" fontSize={11} tickLine={false} axisLine={false} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="linear" dataKey="ideal" name="Ideal" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+              <Line type="stepAfter" dataKey="remaining" name="Remaining" stroke="#0d9488" strokeWidth={3} dot={<ScopeAddedDot />} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="h-[280px]">
+          <p className="text-sm font-semibold text-slate-700 mb-2">Burnup</p>
+          <ResponsiveContainer width="100%" height="90%">
+            <ComposedChart data={burn.points} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" stroke="#64748b" fontSize={11} tickLine={false} axisLine={false} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="linear" dataKey="idealDone" name="Ideal" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+              <Line type="stepAfter" dataKey="scope" name="Total scope" stroke="#f59e0b" strokeWidth={2} dot={<ScopeAddedDot />} />
+              <Line type="stepAfter" dataKey="completed" name="Completed" stroke="#2563eb" strokeWidth={3} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { TeamMember, CapacityUnit } from '../types';
+import { UNIT_LABELS } from '../services/capacityService';
+import { Button } from './Button';
+import { UserPlus, Archive, ArchiveRestore, Trash2, X, HardHat } from 'lucide-react';
+
+interface TeamEditorProps {
+  team: TeamMember[];
+  unit: CapacityUnit;
+  onAdd: (member: Omit<TeamMember, 'id'>) => void;
+  onUpdate: (memberId: string, changes: Partial<TeamMember>) => void;
+  onRemove: (memberId: string) => void;
+}
+
+// Offered in the role field alongside roles already in use
+const COMMON_ROLES = ['Developer', 'Frontend', 'Backend', 'Full Stack', 'DevOps', 'QA', 'Designer', 'Product Manager'];
+const ROLE_LIST_ID = 'team-editor-roles';
+
+const parseSkills = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+// Skill chips with an inline input; Enter or comma adds, Backspace on an empty input removes the last one
+const SkillTags: React.FC<{ skills: string[]; onChange: (skills: string[]) => void }> = ({ skills, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const added = parseSkills(draft).filter(s => !skills.some(existing => existing.toLowerCase() === s.toLowerCase()));
+    if (added.length > 0) onChange([...skills, ...added]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {skills.map(skill => (
+        <span key={skill} className="inline-flex items-center gap-1 text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">
+          {skill}
+          <button onClick={() => onChange(skills.filter(s => s !== skill))} className="text-blue-300 hover:text-blue-700" title={`Remove ${skill}`}>
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); commit(); }
+          if (e.key === 'Backspace' && draft === '' && skills.length > 0) onChange(skills.slice(0, -1));
+        }}
+        onBlur={commit}
+        placeholder={skills.length === 0 ? 'Add skills…' : '+'}
+        className="flex-1 min-w-[4rem] text-xs px-1 py-0.5 bg-transparent outline-none"
+      />
+    </div>
+  );
+};
+
+export const TeamEditor: React.FC<TeamEditorProps> = ({ team, unit, onAdd, onUpdate, onRemove }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState('Developer');
+  const [newCapacity, setNewCapacity] = useState(10);
+  const [newSkills, setNewSkills] = useState('');
+  const [newIsContractor, setNewIsContractor] = useState(true);
+
+  const archivedCount = team.filter(m => m.archived).length;
+  const visibleMembers = team.filter(m => showArchived || !m.archived);
+  const roles = Array.from(new Set([...COMMON_ROLES, ...team.map(m => m.role).filter(Boolean)]));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onAdd({
+      name: newName.trim(),
+      role: newRole.trim() || 'Developer',
+      avatar: '',
+      capacityPerSprint: newCapacity,
+      skills: parseSkills(newSkills),
+      isLocal: true,
+      isContractor: newIsContractor
+    });
+    setNewName('');
+    setNewSkills('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <datalist id={ROLE_LIST_ID}>
+        {roles.map(r => <option key={r} value={r} />)}
+      </datalist>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold">Team Members</h2>
+          <p className="text-sm text-slate-500">
+            Roles, skills and capacity are kept across Jira refreshes. Archived members are hidden from planning and forecasts.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="rounded border-slate-300" />
+              Show archived ({archivedCount})
+            </label>
+          )}
+          <Button size="sm" icon={<UserPlus size={14} />} onClick={() => setIsAdding(!isAdding)}>
+            Add Member
+          </Button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-6 gap-3 p-4 mb-4 bg-slate-50 border border-slate-200 rounded-lg">
+          <input
+            type="text"
+            required
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name"
+            className="md:col-span-2 text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+          <input
+            type="text"
+            list={ROLE_LIST_ID}
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value)}
+            placeholder="Role"
+            className="text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="number"
+              min="0"
+              value={newCapacity}
+              onChange={(e) => setNewCapacity(parseInt(e.target.value) || 0)}
+              className="w-16 text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+            />
+            {UNIT_LABELS[unit]} / 10 days
+          </label>
+          <input
+            type="text"
+            value={newSkills}
+            onChange={(e) => setNewSkills(e.target.value)}
+            placeholder="Skills, comma separated"
+            className="md:col-span-2 text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+          <label className="md:col-span-4 flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={newIsContractor} onChange={(e) => setNewIsContractor(e.target.checked)} className="rounded border-slate-300" />
+            Contractor (not a Jira user, so their assignments stay local)
+          </label>
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setIsAdding(false)}>Cancel</Button>
+            <Button type="submit" size="sm">Add</Button>
+          </div>
+        </form>
+      )}
+
+      {visibleMembers.length === 0 ? (
+        <div className="text-slate-500 text-center py-10">
+          No team members found.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visibleMembers.map(member => (
+            <div
+              key={member.id}
+              className={`flex items-start gap-4 p-4 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors ${member.archived ? 'opacity-60' : ''}`}
+            >
+              <img src={member.avatar || `https://ui-avatars.com/api/?name=${member.name}`} alt={member.name} className="w-12 h-12 rounded-full" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  {/* Jira-owned names are refreshed on every sync, so only local members can be renamed */}
+                  {member.isLocal ? (
+                    <input
+                      type="text"
+                      value={member.name}
+                      onChange={(e) => onUpdate(member.id, { name: e.target.value })}
+                      className="flex-1 min-w-0 font-semibold text-slate-900 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-blue-500 outline-none"
+                    />
+                  ) : (
+                    <div className="flex-1 min-w-0 font-semibold text-slate-900 truncate">{member.name}</div>
+                  )}
+                  {member.isContractor && (
+                    <span className="inline-flex items-center gap-1 text-[10px] uppercase font-bold bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded" title="Contractor">
+                      <HardHat size={10} /> Contractor
+                    </span>
+                  )}
+                  {member.archived && (
+                    <span className="text-[10px] uppercase font-bold bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded">Archived</span>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  list={ROLE_LIST_ID}
+                  value={member.role}
+                  onChange={(e) => onUpdate(member.id, { role: e.target.value })}
+                  className="w-full text-sm text-slate-500 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-blue-500 outline-none"
+                />
+                <SkillTags skills={member.skills} onChange={(skills) => onUpdate(member.id, { skills })} />
+                <div className="flex items-center gap-2 pt-1">
+                  <span className="text-xs text-slate-500">Capacity:</span>
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-16 px-2 py-1 text-xs border rounded bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                    value={member.capacityPerSprint}
+                    onChange={(e) => onUpdate(member.id, { capacityPerSprint: parseInt(e.target.value) || 0 })}
+                  />
+                  <span className="text-xs text-slate-400">{UNIT_LABELS[unit]} / 10 days</span>
+                </div>
+                <div className="flex items-center gap-3 pt-1 text-xs">
+                  <label className="flex items-center gap-1 text-slate-500 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={!!member.isContractor}
+                      onChange={(e) => onUpdate(member.id, { isContractor: e.target.checked })}
+                      className="rounded border-slate-300"
+                    />
+                    Contractor
+                  </label>
+                  <button
+                    onClick={() => onUpdate(member.id, { archived: !member.archived })}
+                    className="flex items-center gap-1 text-slate-400 hover:text-slate-700 transition-colors"
+                  >
+                    {member.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+                    {member.archived ? 'Restore' : 'Archive'}
+                  </button>
+                  {/* Jira users would come back on the next sync, so they can only be archived */}
+                  {member.isLocal && (
+                    <button
+                      onClick={() => { if (confirm(`Remove ${member.name} from the team?`)) onRemove(member.id); }}
+                      className="flex items-center gap-1 text-slate-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 size={12} /> Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
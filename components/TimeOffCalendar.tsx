@@ -0,0 +1,208 @@
+import React, { useState, useRef } from 'react';
+import { TeamMember, Sprint, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { getMemberSprintAvailability, getOpenSprintOrder, parseIcs, toDateKey } from '../services/capacityService';
+import { Button } from './Button';
+import { CalendarOff, Upload, Plus, Trash2, Palmtree } from 'lucide-react';
+
+interface TimeOffCalendarProps {
+  team: TeamMember[];
+  sprints: Sprint[];
+  timeOff: TimeOffEntry[];
+  capacitySnapshots: CapacitySnapshot[];
+  unit: CapacityUnit;
+  onAdd: (entries: Omit<TimeOffEntry, 'id'>[]) => void;
+  onRemove: (entryId: string) => void;
+  onCapacityOverride: (memberId: string, sprint: Sprint, capacity: number | undefined) => void;
+}
+
+// Target select value for team-wide holidays
+const TEAM_HOLIDAY = '__team__';
+
+export const TimeOffCalendar: React.FC<TimeOffCalendarProps> = ({ 
+  team, sprints, timeOff, capacitySnapshots, unit, onAdd, onRemove, onCapacityOverride 
+}) => {
+  const today = toDateKey(new Date());
+  const [target, setTarget] = useState<string>(TEAM_HOLIDAY);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [label, setLabel] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const memberId = target === TEAM_HOLIDAY ? undefined : target;
+  const openSprints = getOpenSprintOrder(sprints);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (endDate < startDate) return;
+    onAdd([{ memberId, startDate, endDate, label: label.trim() || (memberId ? 'Time off' : 'Holiday') }]);
+    setLabel('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const events = parseIcs(await file.text());
+    if (events.length === 0) {
+      setImportMessage(`No events found in ${file.name}.`);
+      return;
+    }
+    onAdd(events.map(ev => ({ ...ev, memberId })));
+    const owner = memberId ? team.find(m => m.id === memberId)?.name : 'the team holiday calendar';
+    setImportMessage(`Imported ${events.length} event${events.length === 1 ? '' : 's'} into ${owner}.`);
+  };
+
+  const ownerName = (entry: TimeOffEntry) =>
+    entry.memberId ? team.find(m => m.id === entry.memberId)?.name || 'Unknown member' : 'Whole team';
+
+  // Upcoming entries first, past ones after
+  const sortedEntries = [...timeOff].sort((a, b) => {
+    const aPast = a.endDate < today ? 1 : 0;
+    const bPast = b.endDate < today ? 1 : 0;
+    return aPast - bPast || a.startDate.localeCompare(b.startDate);
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <CalendarOff size={18} className="text-slate-400" />
+            Time Off & Holidays
+          </h3>
+          <span className="bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">{timeOff.length}</span>
+        </div>
+
+        <form onSubmit={handleAdd} className="p-4 border-b border-slate-100 grid grid-cols-2 gap-3">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="col-span-2 text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+          >
+            <option value={TEAM_HOLIDAY}>Team holiday (everyone)</option>
+            {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <label className="text-xs text-slate-500">
+            From
+            <input
+              type="date"
+              required
+              value={startDate}
+              onChange={(e) => { setStartDate(e.target.value); if (e.target.value > endDate) setEndDate(e.target.value); }}
+              className="mt-1 w-full text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            To
+            <input
+              type="date"
+              required
+              min={startDate}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="mt-1 w-full text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+            />
+          </label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={memberId ? 'Vacation, training...' : 'Public holiday name'}
+            className="col-span-2 text-sm border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+          <Button type="submit" size="sm" icon={<Plus size={14} />}>Add</Button>
+          <Button type="button" size="sm" variant="outline" icon={<Upload size={14} />} onClick={() => fileInputRef.current?.click()}>
+            Import .ics
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImport} />
+          {importMessage && <p className="col-span-2 text-xs text-slate-500">{importMessage}</p>}
+        </form>
+
+        <div className="overflow-y-auto max-h-80 divide-y divide-slate-50">
+          {sortedEntries.length === 0 ? (
+            <div className="text-center py-8 text-slate-400 text-sm">
+              <Palmtree className="mx-auto mb-2 opacity-50" />
+              No time off recorded.
+            </div>
+          ) : sortedEntries.map(entry => (
+            <div key={entry.id} className={`flex items-center gap-3 px-4 py-2 text-sm ${entry.endDate < today ? 'opacity-50' : ''}`}>
+              <div className={`w-2 h-2 rounded-full shrink-0 ${entry.memberId ? 'bg-blue-500' : 'bg-amber-500'}`} />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">{entry.label}</p>
+                <p className="text-xs text-slate-500">
+                  {ownerName(entry)} · {entry.startDate === entry.endDate ? entry.startDate : `${entry.startDate} → ${entry.endDate}`}
+                </p>
+              </div>
+              <button onClick={() => onRemove(entry.id)} className="text-slate-300 hover:text-red-500 transition-colors" title="Remove">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Effective capacity per sprint */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Sprint Capacity</h3>
+          <p className="text-xs text-slate-500">{unit === 'hours' ? 'Hours' : 'Points'} after weekends, holidays and time off. Type a value to override a sprint.</p>
+        </div>
+        {openSprints.length === 0 ? (
+          <div className="text-center py-8 text-slate-400 text-sm">No active or upcoming sprints.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="text-left py-2 px-4">Member</th>
+                  {openSprints.map(s => (
+                    <th key={s.id} className="text-right py-2 px-4 whitespace-nowrap">{s.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {team.map(member => (
+                  <tr key={member.id} className="hover:bg-slate-50">
+                    <td className="py-2 px-4 text-slate-700 whitespace-nowrap">{member.name}</td>
+                    {openSprints.map(sprint => {
+                      const availability = getMemberSprintAvailability(member, sprint, timeOff);
+                      const override = capacitySnapshots
+                        .find(s => s.memberId === member.id && s.sprintId === sprint.id)?.capacityOverride;
+                      return (
+                        <td key={sprint.id} className="py-2 px-4 text-right whitespace-nowrap">
+                          <input
+                            type="number"
+                            min="0"
+                            value={override ?? ''}
+                            placeholder={availability.capacity.toString()}
+                            onChange={(e) => onCapacityOverride(
+                              member.id, 
+                              sprint, 
+                              e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+                            )}
+                            title={override !== undefined ? 'Overridden, clear to use the working-day capacity' : 'Working-day capacity'}
+                            className={`w-14 px-1.5 py-0.5 text-right text-sm font-bold border rounded outline-none focus:ring-2 focus:ring-blue-500 ${
+                              override !== undefined 
+                                ? 'border-blue-300 bg-blue-50 text-blue-700' 
+                                : `border-transparent bg-transparent placeholder:font-bold ${availability.daysOff > 0 ? 'placeholder:text-amber-600' : 'placeholder:text-slate-700'}`
+                            }`}
+                          />
+                          <span className="text-xs text-slate-400 ml-1">
+                            {availability.availableDays}/{availability.workingDays}d
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,23 @@
 import React, { useMemo } from 'react';
-import { JiraIssue, TeamMember } from '../types';
+import { JiraIssue, TeamMember, Worklog } from '../types';
+import { getTimeEntries, toDayKey } from '../services/worklogService';
+import { CHART_COLORS } from '../constants';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
   PieChart, Pie, Cell 
 } from 'recharts';
-import { Clock, AlertTriangle, TrendingDown, CheckCircle2, DollarSign, ListFilter } from 'lucide-react';
+import { Clock, AlertTriangle, TrendingDown, CheckCircle2, DollarSign, ListFilter, CalendarDays } from 'lucide-react';
 
 interface TimeTrackingDashboardProps {
   issues: JiraIssue[];
+  worklogs: Worklog[];
   team: TeamMember[];
 }
 
-export const TimeTrackingDashboard: React.FC<TimeTrackingDashboardProps> = ({ issues, team }) => {
+// Number of most recent logging days shown in the daily chart
+const DAILY_WINDOW = 14;
+
+export const TimeTrackingDashboard: React.FC<TimeTrackingDashboardProps> = ({ issues, worklogs, team }) => {
   
   // Helper to format seconds to hours (1 decimal)
   const toHours = (seconds: number) => Math.round((seconds / 3600) * 10) / 10;
@@ -41,22 +47,69 @@ export const TimeTrackingDashboard: React.FC<TimeTrackingDashboardProps> = ({ is
     };
   }, [issues]);
 
+  const timeEntries = useMemo(() => getTimeEntries(issues, worklogs), [issues, worklogs]);
+
+  const getMemberName = (memberId: string, fallback?: string) =>
+    team.find(t => t.id === memberId)?.name || fallback || 'Unknown';
+
   const assigneeData = useMemo(() => {
-    return team.map(member => {
-      const memberIssues = issues.filter(i => i.assigneeId === member.id);
-      const spent = memberIssues.reduce((acc, i) => acc + i.timeSpentSeconds, 0);
-      const estimate = memberIssues.reduce((acc, i) => acc + i.timeEstimateSeconds, 0);
-      
-      return {
-        name: member.name.split(' ')[0], // First Name
-        fullName: member.name,
-        spent: toHours(spent),
-        estimate: toHours(estimate),
-        variance: toHours(spent - estimate)
-      };
-    }).filter(d => d.spent > 0 || d.estimate > 0)
+    // Spent time goes to whoever logged it; estimates stay with the current assignee
+    const people: Record<string, { name: string; spent: number; estimate: number }> = {};
+    const ensure = (id: string, name?: string) => {
+      if (!people[id]) people[id] = { name: getMemberName(id, name), spent: 0, estimate: 0 };
+      return people[id];
+    };
+
+    timeEntries.forEach(entry => {
+      if (entry.authorId) ensure(entry.authorId, entry.authorName).spent += entry.seconds;
+    });
+    issues.forEach(i => {
+      if (i.assigneeId) ensure(i.assigneeId).estimate += i.timeEstimateSeconds;
+    });
+
+    return Object.values(people).map(p => ({
+        name: p.name.split(' ')[0], // First Name
+        fullName: p.name,
+        spent: toHours(p.spent),
+        estimate: toHours(p.estimate),
+        variance: toHours(p.spent - p.estimate)
+      }))
+      .filter(d => d.spent > 0 || d.estimate > 0)
       .sort((a, b) => b.spent - a.spent);
-  }, [issues, team]);
+  }, [timeEntries, issues, team]);
+
+  const dailyData = useMemo(() => {
+    const days: Record<string, Record<string, number>> = {};
+    // Series are keyed by author id so people sharing a first name stay apart
+    const authorNames = new Map<string, string>();
+
+    timeEntries.forEach(entry => {
+      if (!entry.started) return; // aggregate-only entries have no date
+      const day = toDayKey(entry.started);
+      const author = entry.authorId || `name:${entry.authorName || 'Unknown'}`;
+      authorNames.set(author, getMemberName(entry.authorId || '', entry.authorName));
+      days[day] = days[day] || {};
+      days[day][author] = (days[day][author] || 0) + entry.seconds;
+    });
+
+    // First names for the legend, unless two authors share one
+    const firstName = (name: string) => name.split(' ')[0];
+    const authors = Array.from(authorNames.entries()).map(([id, name]) => ({
+      id,
+      name: Array.from(authorNames.values()).filter(n => firstName(n) === firstName(name)).length > 1 ? name : firstName(name)
+    }));
+
+    const data = Object.keys(days)
+      .sort()
+      .slice(-DAILY_WINDOW)
+      .map(day => {
+        const row: Record<string, string | number> = { day: day.slice(5) };
+        Object.entries(days[day]).forEach(([author, seconds]) => { row[author] = toHours(seconds); });
+        return row;
+      });
+
+    return { data, authors };
+  }, [timeEntries, team]);
 
   const epicData = useMemo(() => {
     const epics: Record<string, { name: string, spent: number, estimate: number }> = {};
@@ -213,6 +266,43 @@ export const TimeTrackingDashboard: React.FC<TimeTrackingDashboardProps> = ({ is
         </div>
       </div>
 
+      {/* Daily Logged Time by Author */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-[350px]">
+        <div className="flex items-center gap-2 mb-4">
+          <CalendarDays className="text-blue-500" size={20} />
+          <h3 className="text-lg font-semibold text-slate-900">Hours Logged per Day</h3>
+          <span className="text-xs text-slate-400">Last {DAILY_WINDOW} days with worklogs</span>
+        </div>
+        {dailyData.data.length === 0 ? (
+          <div className="h-[80%] flex items-center justify-center text-sm text-slate-400">
+            No dated worklogs available. Connect a Jira project to load worklogs.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="85%">
+            <BarChart data={dailyData.data} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="day" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+              <Tooltip 
+                cursor={{ fill: '#f1f5f9' }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend verticalAlign="top" align="right" height={36}/>
+              {dailyData.authors.map((author, index) => (
+                <Bar
+                  key={author.id}
+                  // A string dataKey is read as a path, and ids may contain dots
+                  dataKey={(row: Record<string, string | number>) => row[author.id]}
+                  name={author.name}
+                  stackId="day"
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
       {/* Accuracy Distribution & Risk Table */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         
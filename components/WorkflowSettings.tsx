@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { JiraConfig, WorkflowMapping, Status, Priority, IssueType } from '../types';
+import { GitBranch, Info } from 'lucide-react';
+
+interface WorkflowSettingsProps {
+  projects: string[];
+  projectConfigs: Record<string, JiraConfig>;
+  onMappingChange: (projectKey: string, mapping: WorkflowMapping) => void;
+}
+
+type MappingSection = keyof WorkflowMapping;
+
+const SECTIONS: { key: MappingSection; title: string; options: string[] }[] = [
+  { key: 'statuses', title: 'Statuses', options: Object.values(Status) },
+  { key: 'issueTypes', title: 'Issue Types', options: Object.values(IssueType) },
+  { key: 'priorities', title: 'Priorities', options: Object.values(Priority) }
+];
+
+export const WorkflowSettings: React.FC<WorkflowSettingsProps> = ({ projects, projectConfigs, onMappingChange }) => {
+  const mappedProjects = projects.filter(p => projectConfigs[p]?.workflowMapping);
+  const [selectedProject, setSelectedProject] = useState<string>(mappedProjects[0] || '');
+
+  const activeProject = mappedProjects.includes(selectedProject) ? selectedProject : mappedProjects[0];
+  const mapping = activeProject ? projectConfigs[activeProject].workflowMapping : undefined;
+
+  if (!activeProject || !mapping) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-10 text-center text-slate-400">
+        <Info className="mx-auto mb-2 opacity-50" />
+        <p className="text-slate-600 font-medium">No workflow mappings yet</p>
+        <p className="text-sm">Connect or refresh a Jira project to load its statuses, issue types and priorities.</p>
+      </div>
+    );
+  }
+
+  const handleChange = (section: MappingSection, jiraName: string, value: string) => {
+    onMappingChange(activeProject, {
+      ...mapping,
+      [section]: { ...mapping[section], [jiraName]: value }
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <GitBranch className="text-blue-600" />
+            Workflow Mapping
+          </h2>
+          <p className="text-sm text-slate-500">
+            Translate this project's Jira names into planner statuses, types and priorities. Changes apply immediately and on every sync.
+          </p>
+        </div>
+        <select
+          value={activeProject}
+          onChange={(e) => setSelectedProject(e.target.value)}
+          className="text-sm border border-slate-200 rounded-lg px-3 py-2 bg-white font-semibold"
+        >
+          {mappedProjects.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {SECTIONS.map(section => {
+          const entries = Object.entries(mapping[section.key] as Record<string, string>)
+            .sort(([a], [b]) => a.localeCompare(b));
+
+          return (
+            <div key={section.key} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                <h3 className="font-semibold text-slate-800">{section.title}</h3>
+                <span className="bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">{entries.length}</span>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500">
+                  <tr>
+                    <th className="text-left py-2 px-4">Jira</th>
+                    <th className="text-left py-2 px-4">Planner</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {entries.map(([jiraName, value]) => (
+                    <tr key={jiraName} className="hover:bg-slate-50">
+                      <td className="py-2 px-4 text-slate-700 truncate max-w-[140px]" title={jiraName}>{jiraName}</td>
+                      <td className="py-2 px-4">
+                        <select
+                          value={value}
+                          onChange={(e) => handleChange(section.key, jiraName, e.target.value)}
+                          className="w-full text-sm border border-slate-200 rounded px-2 py-1 bg-white"
+                        >
+                          {section.options.map(o => <option key={o} value={o}>{o}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CapacityUnit } from '../types';
+import { Gauge } from 'lucide-react';
+
+interface WorkspaceSettingsProps {
+  capacityUnit: CapacityUnit;
+  onCapacityUnitChange: (unit: CapacityUnit) => void;
+}
+
+const UNITS: { value: CapacityUnit; label: string; description: string }[] = [
+  {
+    value: 'points',
+    label: 'Story points',
+    description: 'Capacity is points per sprint; load is the story points of open issues.'
+  },
+  {
+    value: 'hours',
+    label: 'Hours',
+    description: 'Capacity is hours per sprint; load is the remaining estimate of open issues.'
+  }
+];
+
+export const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({ capacityUnit, onCapacityUnitChange }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 animate-in fade-in duration-500">
+    <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+      <Gauge className="text-blue-600" />
+      Capacity Unit
+    </h2>
+    <p className="text-sm text-slate-500 mb-4">
+      How team capacity and issue load are measured across the dashboard, planner and AI analysis.
+      Member capacities are not converted when you switch.
+    </p>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {UNITS.map(unit => (
+        <button
+          key={unit.value}
+          type="button"
+          onClick={() => onCapacityUnitChange(unit.value)}
+          className={`text-left p-4 rounded-lg border transition-colors ${
+            capacityUnit === unit.value
+              ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500'
+              : 'border-slate-200 hover:bg-slate-50'
+          }`}
+        >
+          <p className={`font-semibold ${capacityUnit === unit.value ? 'text-blue-700' : 'text-slate-800'}`}>{unit.label}</p>
+          <p className="text-xs text-slate-500 mt-1">{unit.description}</p>
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -1,4 +1,4 @@
-import { TeamMember, Sprint, JiraIssue, IssueType, Priority, Status } from './types';
+import { TeamMember, Sprint, JiraIssue, IssueType, Priority, Status, Worklog } from './types';
 
 export const INITIAL_TEAM: TeamMember[] = [
   { id: 'u1', name: 'Alice Chen', role: 'Senior Frontend Dev', avatar: 'https://picsum.photos/32/32?random=1', capacityPerSprint: 20, skills: ['React', 'TypeScript', 'CSS'] },
@@ -20,7 +20,11 @@ export const MOCK_ISSUES: JiraIssue[] = [
     assigneeId: 'u1', storyPoints: 8, sprintId: 's1',
     timeSpentSeconds: 14400, // 4h
     timeEstimateSeconds: 28800, // 8h
-    parentKey: 'PROJ-99', parentSummary: 'User Security Overhaul'
+    parentKey: 'PROJ-99', parentSummary: 'User Security Overhaul',
+    createdAt: '2023-09-25T10:00:00.000+0000',
+    statusHistory: [
+      { at: '2023-10-02T09:00:00.000+0000', from: Status.TO_DO, to: Status.IN_PROGRESS }
+    ]
   },
   { 
     id: 'i2', key: 'PROJ-102', summary: 'Database Schema Migration', 
@@ -44,7 +48,13 @@ export const MOCK_ISSUES: JiraIssue[] = [
     assigneeId: 'u3', storyPoints: 13, sprintId: 's1',
     timeSpentSeconds: 36000, // 10h
     timeEstimateSeconds: 28800, // 8h (Overrun!)
-    parentKey: 'PROJ-80', parentSummary: 'Infrastructure Migration'
+    parentKey: 'PROJ-80', parentSummary: 'Infrastructure Migration',
+    createdAt: '2023-09-20T10:00:00.000+0000',
+    statusHistory: [
+      { at: '2023-10-02T10:00:00.000+0000', from: Status.TO_DO, to: Status.IN_PROGRESS },
+      { at: '2023-10-05T16:00:00.000+0000', from: Status.IN_PROGRESS, to: Status.IN_REVIEW },
+      { at: '2023-10-06T11:00:00.000+0000', from: Status.IN_REVIEW, to: Status.IN_PROGRESS }
+    ]
   },
   { 
     id: 'i5', key: 'PROJ-105', summary: 'Dashboard UI Revamp', 
@@ -69,7 +79,13 @@ export const MOCK_ISSUES: JiraIssue[] = [
     assigneeId: 'u1', storyPoints: 3, sprintId: 's1',
     timeSpentSeconds: 10800, // 3h
     timeEstimateSeconds: 10800, // 3h
-    parentKey: 'PROJ-100', parentSummary: 'Frontend Redesign v2'
+    parentKey: 'PROJ-100', parentSummary: 'Frontend Redesign v2',
+    createdAt: '2023-09-28T10:00:00.000+0000', resolvedAt: '2023-10-06T14:00:00.000+0000',
+    statusHistory: [
+      { at: '2023-10-04T09:00:00.000+0000', from: Status.TO_DO, to: Status.IN_PROGRESS },
+      { at: '2023-10-05T15:00:00.000+0000', from: Status.IN_PROGRESS, to: Status.IN_REVIEW },
+      { at: '2023-10-06T14:00:00.000+0000', from: Status.IN_REVIEW, to: Status.DONE }
+    ]
   },
    { 
     id: 'i8', key: 'PROJ-98', summary: 'Configure Redis Cache', 
@@ -77,8 +93,24 @@ export const MOCK_ISSUES: JiraIssue[] = [
     assigneeId: 'u2', storyPoints: 2, sprintId: 's1',
     timeSpentSeconds: 5400, // 1.5h
     timeEstimateSeconds: 3600, // 1h (Small Overrun)
-    parentKey: 'PROJ-90', parentSummary: 'Backend Modernization'
+    parentKey: 'PROJ-90', parentSummary: 'Backend Modernization',
+    createdAt: '2023-09-18T10:00:00.000+0000', resolvedAt: '2023-10-04T10:00:00.000+0000',
+    statusHistory: [
+      { at: '2023-10-02T13:00:00.000+0000', from: Status.TO_DO, to: Status.IN_PROGRESS },
+      { at: '2023-10-03T17:00:00.000+0000', from: Status.IN_PROGRESS, to: Status.IN_REVIEW },
+      { at: '2023-10-04T10:00:00.000+0000', from: Status.IN_REVIEW, to: Status.DONE }
+    ]
   }
 ];
 
+// Worklogs for the mock issues: several people logging on the same ticket
+export const MOCK_WORKLOGS: Worklog[] = [
+  { id: 'w1', issueId: 'i1', authorId: 'u1', authorName: 'Alice Chen', started: '2023-10-02T09:00:00.000+0000', timeSpentSeconds: 7200 },
+  { id: 'w2', issueId: 'i1', authorId: 'u4', authorName: 'Dana Scully', started: '2023-10-03T13:00:00.000+0000', timeSpentSeconds: 7200, comment: 'Pairing on token refresh' },
+  { id: 'w3', issueId: 'i4', authorId: 'u3', authorName: 'Charlie Kim', started: '2023-10-02T10:00:00.000+0000', timeSpentSeconds: 21600 },
+  { id: 'w4', issueId: 'i4', authorId: 'u4', authorName: 'Dana Scully', started: '2023-10-04T09:30:00.000+0000', timeSpentSeconds: 14400, comment: 'Helm charts' },
+  { id: 'w5', issueId: 'i7', authorId: 'u1', authorName: 'Alice Chen', started: '2023-10-05T11:00:00.000+0000', timeSpentSeconds: 10800 },
+  { id: 'w6', issueId: 'i8', authorId: 'u2', authorName: 'Bob Smith', started: '2023-10-03T15:00:00.000+0000', timeSpentSeconds: 5400 }
+];
+
 export const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
@@ -0,0 +1,107 @@
+// Minimal self-hosted CORS proxy for JiraCap.
+// Forwards browser requests to an allow-listed Jira site so credentials never pass through third parties.
+//
+//   JIRA_DOMAINS=https://company.atlassian.net npm run proxy
+//
+// JIRA_DOMAINS           comma-separated Jira base URLs the proxy may reach (required)
+// PROXY_PORT             port to listen on (default 8787)
+// PROXY_ALLOWED_ORIGINS  comma-separated browser origins allowed to call the proxy (default: any)
+//
+// The app sends each request to `<proxy URL><Jira path>` with the target site in the X-Jira-Domain header.
+// When only one domain is allow-listed the header may be omitted.
+
+import http from 'node:http';
+
+const normalize = (url) => url.trim().replace(/\/$/, '').toLowerCase();
+
+const allowedDomains = (process.env.JIRA_DOMAINS || '').split(',').map(normalize).filter(Boolean);
+const allowedOrigins = (process.env.PROXY_ALLOWED_ORIGINS || '').split(',').map(normalize).filter(Boolean);
+const port = parseInt(process.env.PROXY_PORT || '8787', 10);
+
+if (allowedDomains.length === 0) {
+  console.error('JIRA_DOMAINS is not set. Example: JIRA_DOMAINS=https://company.atlassian.net npm run proxy');
+  process.exit(1);
+}
+
+// Request headers forwarded to Jira; everything else (cookies, origin, referer, host) is dropped
+const FORWARDED_REQUEST_HEADERS = ['authorization', 'accept', 'content-type', 'x-atlassian-token'];
+// Response headers the app reads
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+const corsHeaders = (origin) => {
+  const allowOrigin = allowedOrigins.length === 0
+    ? '*'
+    : (origin && allowedOrigins.includes(normalize(origin)) ? origin : allowedOrigins[0]);
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Accept, Content-Type, X-Atlassian-Token, X-Jira-Domain',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    'Vary': 'Origin'
+  };
+};
+
+const sendError = (res, cors, status, message) => {
+  res.writeHead(status, { ...cors, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ errorMessages: [message] }));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const cors = corsHeaders(req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  const requestedDomain = req.headers['x-jira-domain'];
+  const target = requestedDomain ? normalize(String(requestedDomain)) : (allowedDomains.length === 1 ? allowedDomains[0] : '');
+
+  if (!target) {
+    sendError(res, cors, 400, 'Missing X-Jira-Domain header.');
+    return;
+  }
+  if (!allowedDomains.includes(target)) {
+    sendError(res, cors, 403, `Jira domain ${target} is not allow-listed on this proxy.`);
+    return;
+  }
+  if (!req.url || !req.url.startsWith('/rest/')) {
+    sendError(res, cors, 400, 'Only Jira REST paths (/rest/...) are proxied.');
+    return;
+  }
+
+  const headers = {};
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  });
+
+  try {
+    const body = ['GET', 'HEAD'].includes(req.method) ? undefined : await readBody(req);
+    const upstream = await fetch(`${target}${req.url}`, { method: req.method, headers, body });
+
+    const responseHeaders = { ...cors };
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders[name] = value;
+    });
+
+    res.writeHead(upstream.status, responseHeaders);
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (e) {
+    console.error(`Proxy request to ${target}${req.url} failed:`, e);
+    sendError(res, cors, 502, `Proxy could not reach ${target}.`);
+  }
+});
+
+server.listen(port, () => {
+  console.log(`JiraCap proxy listening on http://localhost:${port}`);
+  console.log(`Forwarding to: ${allowedDomains.join(', ')}`);
+});
@@ -0,0 +1,154 @@
+import { JiraIssue, TeamMember, Sprint, Status, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { getMemberSprintCapacity, getIssueLoad, getOpenSprintOrder, round1, PRIORITY_RANK, UNIT_LABELS } from './capacityService';
+import { SkillMappings, getIssueSkills, getTeamSkills, hasSkill } from './skillService';
+
+export interface BalancerOptions {
+  unit: CapacityUnit;
+  timeOff: TimeOffEntry[];
+  snapshots: CapacitySnapshot[];
+  skillMappings: SkillMappings;
+  wipLimit: number; // max open issues per member per sprint, 0 for no limit
+}
+
+export interface ProposedAssignment {
+  issue: JiraIssue;
+  assigneeId: string;
+  sprintId: string;
+  movesSprint: boolean; // the issue was unscheduled and gets placed in sprintId
+  reason: string;
+}
+
+export interface SkippedIssue {
+  issue: JiraIssue;
+  reason: string;
+}
+
+export interface BalancerResult {
+  assignments: ProposedAssignment[];
+  skipped: SkippedIssue[];
+}
+
+interface Slot {
+  capacity: number;
+  load: number;
+  openCount: number;
+}
+
+// Greedy, deterministic allocation of open unassigned issues.
+// Issues go in priority order (then sprint order, bigger first, then key); issues already in a sprint stay there,
+// unscheduled ones land in the earliest open sprint of their own project with room. Each goes to the skilled member with the
+// lowest utilization after taking it, never past their sprint capacity or the WIP limit.
+export const balanceBacklog = (
+  team: TeamMember[],
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  options: BalancerOptions
+): BalancerResult => {
+  const { unit, timeOff, snapshots, skillMappings, wipLimit } = options;
+  const unitLabel = UNIT_LABELS[unit];
+  const teamSkills = getTeamSkills(team);
+
+  const openSprints = getOpenSprintOrder(sprints);
+  const sprintIndex = new Map(openSprints.map((s, idx) => [s.id, idx]));
+  const openIssues = issues.filter(i => i.status !== Status.DONE);
+
+  // Starting point: what each member already carries in each open sprint.
+  // Slots are per sprint, so capacity already reflects the member's allocation to that sprint's project.
+  const slots = new Map<string, Slot>();
+  const slotKey = (memberId: string, sprintId: string) => `${memberId}|${sprintId}`;
+  team.forEach(member => openSprints.forEach(sprint => {
+    const carried = openIssues.filter(i => i.assigneeId === member.id && i.sprintId === sprint.id);
+    slots.set(slotKey(member.id, sprint.id), {
+      capacity: getMemberSprintCapacity(member, sprint, timeOff, snapshots),
+      load: carried.reduce((acc, i) => acc + getIssueLoad(i, unit), 0),
+      openCount: carried.length
+    });
+  }));
+
+  const candidates = openIssues
+    .filter(i => !i.assigneeId && (!i.sprintId || sprintIndex.has(i.sprintId)))
+    .sort((a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      (sprintIndex.get(a.sprintId || '') ?? openSprints.length) - (sprintIndex.get(b.sprintId || '') ?? openSprints.length) ||
+      getIssueLoad(b, unit) - getIssueLoad(a, unit) ||
+      a.key.localeCompare(b.key, undefined, { numeric: true })
+    );
+
+  const assignments: ProposedAssignment[] = [];
+  const skipped: SkippedIssue[] = [];
+
+  candidates.forEach(issue => {
+    const load = getIssueLoad(issue, unit);
+    const skills = getIssueSkills(issue, skillMappings, teamSkills);
+
+    // Holders of every required skill; failing that, whoever holds the most of them
+    const skillScore = (m: TeamMember) => skills.filter(s => hasSkill(m, s)).length;
+    const bestScore = Math.max(0, ...team.map(skillScore));
+    if (skills.length > 0 && bestScore === 0) {
+      skipped.push({ issue, reason: `Nobody on the team has ${skills.join(', ')}.` });
+      return;
+    }
+    const eligible = skills.length > 0 ? team.filter(m => skillScore(m) === bestScore) : team;
+    const isPartialMatch = skills.length > 0 && bestScore < skills.length;
+
+    // Never move an issue onto another project's board
+    const sprintsToTry = issue.sprintId
+      ? openSprints.filter(s => s.id === issue.sprintId)
+      : openSprints.filter(s => (s.projectKey || '') === (issue.projectKey || ''));
+
+    let blockedByWip = false;
+    for (const sprint of sprintsToTry) {
+      const fits = eligible
+        .map(member => ({ member, slot: slots.get(slotKey(member.id, sprint.id))! }))
+        .filter(({ slot }) => {
+          if (wipLimit > 0 && slot.openCount >= wipLimit) { blockedByWip = true; return false; }
+          return slot.capacity > 0 && slot.load + load <= slot.capacity;
+        })
+        .map(({ member, slot }) => ({ member, slot, utilization: (slot.load + load) / slot.capacity }))
+        .sort((a, b) =>
+          a.utilization - b.utilization ||
+          (b.slot.capacity - b.slot.load) - (a.slot.capacity - a.slot.load) ||
+          a.member.name.localeCompare(b.member.name)
+        );
+
+      const choice = fits[0];
+      if (!choice) continue;
+
+      const freeBefore = round1(choice.slot.capacity - choice.slot.load);
+      choice.slot.load += load;
+      choice.slot.openCount += 1;
+
+      const parts = [
+        `${issue.priority} priority`,
+        skills.length > 0
+          ? `${isPartialMatch ? 'closest skill match for' : 'has'} ${skills.join(', ')}`
+          : 'no skills required',
+        `${freeBefore} of ${choice.slot.capacity} ${unitLabel} free in ${sprint.name}`,
+        `${Math.round(choice.utilization * 100)}% loaded after`
+      ];
+      if (fits.length > 1) parts.push(`lowest load of ${fits.length} candidates`);
+      if (!issue.sprintId) parts.push('earliest sprint with room');
+
+      assignments.push({
+        issue,
+        assigneeId: choice.member.id,
+        sprintId: sprint.id,
+        movesSprint: !issue.sprintId,
+        reason: parts.join(' · ')
+      });
+      return;
+    }
+
+    const where = issue.sprintId
+      ? sprintsToTry[0]?.name
+      : `any open ${issue.projectKey ? `${issue.projectKey} ` : ''}sprint`;
+    skipped.push({
+      issue,
+      reason: blockedByWip
+        ? `No eligible member under the WIP limit with ${load} ${unitLabel} free in ${where}.`
+        : `No eligible member has ${load} ${unitLabel} free in ${where}.`
+    });
+  });
+
+  return { assignments, skipped };
+};
@@ -0,0 +1,113 @@
+import { JiraIssue, Sprint, Status, CapacityUnit } from '../types';
+import { getCommittedLoad, toDateKey, round1 } from './capacityService';
+import { getStatusAt } from './flowService';
+
+export interface BurnPoint {
+  date: string; // YYYY-MM-DD
+  label: string;
+  ideal: number; // ideal remaining work
+  idealDone: number; // ideal completed work against the initial scope
+  // Actuals stop at today
+  remaining?: number;
+  completed?: number;
+  scope?: number;
+  added: number; // scope added mid-sprint on this day
+}
+
+export interface ScopeChange {
+  issueKey: string;
+  date: string;
+  load: number;
+}
+
+export interface SprintBurn {
+  points: BurnPoint[];
+  initialScope: number;
+  scopeAdded: ScopeChange[];
+}
+
+interface Membership {
+  issue: JiraIssue;
+  from: number; // -Infinity when it was in the sprint from the start
+  to: number; // Infinity while still in the sprint
+}
+
+// When the issue (last) joined and left the sprint, from its Sprint field history.
+// Without history it has been in its current sprint since it was created.
+const getMembership = (issue: JiraIssue, sprintId: string): Membership | null => {
+  const changes = (issue.sprintHistory || []).filter(c => c.from.includes(sprintId) !== c.to.includes(sprintId));
+
+  if (changes.length === 0) {
+    if (issue.sprintId !== sprintId) return null;
+    return { issue, from: issue.createdAt ? new Date(issue.createdAt).getTime() : -Infinity, to: Infinity };
+  }
+
+  const lastAdded = [...changes].reverse().find(c => c.to.includes(sprintId));
+  const lastRemoved = [...changes].reverse().find(c => c.from.includes(sprintId));
+  // First change is a removal: it was in the sprint before history starts
+  const from = lastAdded ? new Date(lastAdded.at).getTime() : -Infinity;
+  const to = lastRemoved && (!lastAdded || new Date(lastRemoved.at) > new Date(lastAdded.at))
+    ? new Date(lastRemoved.at).getTime()
+    : Infinity;
+  return { issue, from, to };
+};
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999).getTime();
+const isWeekday = (date: Date) => date.getDay() !== 0 && date.getDay() !== 6;
+
+// Daily burndown / burnup for a sprint from status and sprint history.
+// Work added after the sprint started counts as scope change, not initial scope.
+export const getSprintBurn = (
+  sprint: Sprint,
+  issues: JiraIssue[],
+  unit: CapacityUnit,
+  now: number = Date.now()
+): SprintBurn => {
+  const start = new Date(sprint.startDate);
+  const startMs = start.getTime();
+  const end = new Date(sprint.endDate);
+
+  const memberships = issues
+    .map(issue => getMembership(issue, sprint.id))
+    .filter((m): m is Membership => m !== null);
+
+  const inScopeAt = (at: number) => memberships.filter(m => m.from <= at && at < m.to);
+  const sumAt = (list: Membership[]) => round1(list.reduce((acc, m) => acc + getCommittedLoad(m.issue, unit), 0));
+
+  const initialScope = sumAt(inScopeAt(startMs));
+  const scopeAdded: ScopeChange[] = memberships
+    .filter(m => m.from > startMs && m.from <= end.getTime())
+    .map(m => ({ issueKey: m.issue.key, date: toDateKey(new Date(m.from)), load: getCommittedLoad(m.issue, unit) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Calendar days of the sprint; the ideal line only burns on weekdays
+  const days: Date[] = [];
+  for (let d = new Date(start.getFullYear(), start.getMonth(), start.getDate()); d.getTime() <= end.getTime(); d.setDate(d.getDate() + 1)) {
+    days.push(new Date(d));
+  }
+  const burnDays = Math.max(1, days.filter((d, idx) => idx > 0 && isWeekday(d)).length);
+
+  let burned = 0;
+  const points = days.map((day, idx) => {
+    if (idx > 0 && isWeekday(day)) burned += 1;
+    const date = toDateKey(day);
+    const ideal = round1(initialScope * (1 - burned / burnDays));
+    const point: BurnPoint = {
+      date,
+      label: day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      ideal,
+      idealDone: round1(initialScope - ideal),
+      added: round1(scopeAdded.filter(c => c.date === date).reduce((acc, c) => acc + c.load, 0))
+    };
+
+    // Days still ahead have no actuals; today is sampled as of now
+    if (day.getTime() > now) return point;
+    const sample = Math.min(endOfDay(day), end.getTime(), now);
+    const scope = inScopeAt(sample);
+    const completed = sumAt(scope.filter(m => getStatusAt(m.issue, sample) === Status.DONE));
+    const total = sumAt(scope);
+    return { ...point, scope: total, completed, remaining: round1(total - completed) };
+  });
+
+  return { points, initialScope, scopeAdded };
+};
@@ -0,0 +1,282 @@
+import { TeamMember, Sprint, TimeOffEntry, JiraIssue, CapacitySnapshot, CapacityUnit, Priority } from '../types';
+
+// TeamMember.capacityPerSprint is quoted for a sprint of this many working days
+export const STANDARD_SPRINT_WORKING_DAYS = 10;
+
+export const UNIT_LABELS: Record<CapacityUnit, string> = { points: 'pts', hours: 'h' };
+
+export const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Lower ranks are planned first
+export const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.HIGHEST]: 0,
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.LOW]: 3
+};
+
+// Open sprints in the order they will be worked: the active one, then future ones by start date
+export const getOpenSprintOrder = (sprints: Sprint[]): Sprint[] => sprints
+  .filter(s => s.state !== 'closed')
+  .sort((a, b) =>
+    (a.state === 'active' ? 0 : 1) - (b.state === 'active' ? 0 : 1) ||
+    new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+  );
+
+// Remaining estimate, falling back to original estimate minus time spent
+export const getRemainingHours = (issue: JiraIssue): number => {
+  const seconds = issue.remainingEstimateSeconds ?? Math.max(0, issue.timeEstimateSeconds - issue.timeSpentSeconds);
+  return round1(seconds / 3600);
+};
+
+// Work still to do on an issue: story points, or remaining estimate hours
+export const getIssueLoad = (issue: JiraIssue, unit: CapacityUnit): number =>
+  unit === 'hours' ? getRemainingHours(issue) : (issue.storyPoints || 0);
+
+// Whole size of an issue whatever its status: story points, or hours spent plus remaining
+export const getCommittedLoad = (issue: JiraIssue, unit: CapacityUnit): number =>
+  unit === 'hours' ? round1(issue.timeSpentSeconds / 3600 + getRemainingHours(issue)) : (issue.storyPoints || 0);
+
+export const sumLoad = (issues: JiraIssue[], unit: CapacityUnit, measure = getIssueLoad): number =>
+  round1(issues.reduce((acc, i) => acc + measure(i, unit), 0));
+
+// Local calendar day as YYYY-MM-DD
+export const toDateKey = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Parse YYYY-MM-DD as a local date (new Date('YYYY-MM-DD') would be UTC midnight)
+export const parseDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+// Weekdays from the sprint's start day up to, but not including, its end day.
+// Jira sprints usually end on the same weekday they started (Mon → Mon is 10 working days).
+export const getSprintWorkingDays = (sprint: Sprint): string[] => {
+  const start = new Date(sprint.startDate);
+  const end = new Date(sprint.endDate);
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  let endDay = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  // Same-day sprints still get their one day
+  if (endDay.getTime() <= cursor.getTime()) {
+    endDay = new Date(cursor);
+    endDay.setDate(endDay.getDate() + 1);
+  }
+
+  const days: string[] = [];
+  while (cursor < endDay) {
+    if (!isWeekend(cursor)) days.push(toDateKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+// Team holidays plus the member's own time off
+const appliesTo = (entry: TimeOffEntry, memberId: string) => !entry.memberId || entry.memberId === memberId;
+
+const isCovered = (day: string, entries: TimeOffEntry[]) =>
+  entries.some(e => e.startDate <= day && day <= e.endDate);
+
+// Share (0-1) of a member's capacity that goes to a project. Explicit allocations win;
+// otherwise capacity is split evenly across the projects the member was synced from.
+// Sprints without a project, and members from before projects were tracked, get it all.
+export const getProjectAllocation = (member: TeamMember, projectKey?: string): number => {
+  if (!projectKey) return 1;
+  if (member.allocations && Object.keys(member.allocations).length > 0) {
+    return (member.allocations[projectKey] || 0) / 100;
+  }
+  if (!member.projectKeys || member.projectKeys.length === 0) return 1;
+  return member.projectKeys.includes(projectKey) ? 1 / member.projectKeys.length : 0;
+};
+
+// Effective allocation percent per project, explicit or derived
+export const getMemberAllocations = (member: TeamMember, projects: string[]): Record<string, number> =>
+  Object.fromEntries(projects.map(p => [p, round1(getProjectAllocation(member, p) * 100)]));
+
+export interface SprintAvailability {
+  workingDays: number;
+  daysOff: number;
+  availableDays: number;
+  allocation: number; // share of the member given to the sprint's project
+  capacity: number; // in the workspace unit, scaled from capacityPerSprint
+}
+
+export const getMemberSprintAvailability = (
+  member: TeamMember,
+  sprint: Sprint,
+  timeOff: TimeOffEntry[]
+): SprintAvailability => {
+  const workingDays = getSprintWorkingDays(sprint);
+  const entries = timeOff.filter(e => appliesTo(e, member.id));
+  const availableDays = workingDays.filter(day => !isCovered(day, entries)).length;
+  const allocation = getProjectAllocation(member, sprint.projectKey);
+
+  return {
+    workingDays: workingDays.length,
+    daysOff: workingDays.length - availableDays,
+    availableDays,
+    allocation,
+    capacity: round1(member.capacityPerSprint * allocation * availableDays / STANDARD_SPRINT_WORKING_DAYS)
+  };
+};
+
+const findSnapshot = (snapshots: CapacitySnapshot[], memberId: string, sprintId: string) =>
+  snapshots.find(s => s.memberId === memberId && s.sprintId === sprintId);
+
+// A manual override for the sprint wins over the working-day calculation
+export const getMemberSprintCapacity = (
+  member: TeamMember,
+  sprint: Sprint,
+  timeOff: TimeOffEntry[],
+  snapshots: CapacitySnapshot[] = []
+): number => {
+  const override = findSnapshot(snapshots, member.id, sprint.id)?.capacityOverride;
+  return override !== undefined ? override : getMemberSprintAvailability(member, sprint, timeOff).capacity;
+};
+
+export const getTeamSprintCapacity = (
+  team: TeamMember[],
+  sprint: Sprint,
+  timeOff: TimeOffEntry[],
+  snapshots: CapacitySnapshot[] = []
+): number =>
+  round1(team.reduce((acc, m) => acc + getMemberSprintCapacity(m, sprint, timeOff, snapshots), 0));
+
+// Set or clear (undefined) a member's capacity override for a sprint
+export const setCapacityOverride = (
+  snapshots: CapacitySnapshot[],
+  memberId: string,
+  sprint: Sprint,
+  capacityOverride: number | undefined
+): CapacitySnapshot[] => {
+  const existing = findSnapshot(snapshots, memberId, sprint.id);
+  const others = snapshots.filter(s => s !== existing);
+
+  // Nothing left worth keeping on an uncaptured record
+  if (capacityOverride === undefined && !existing?.capturedAt) return others;
+
+  return [...others, {
+    memberId,
+    sprintId: sprint.id,
+    assignedPoints: 0,
+    utilization: 0,
+    ...existing,
+    sprintName: sprint.name,
+    sprintEndDate: sprint.endDate,
+    capacityOverride
+  }];
+};
+
+// Record every member's current load in an active sprint.
+// Returns the same array when nothing changed, so callers can skip persisting.
+export const captureSprintSnapshots = (
+  snapshots: CapacitySnapshot[],
+  sprint: Sprint,
+  team: TeamMember[],
+  issues: JiraIssue[],
+  timeOff: TimeOffEntry[],
+  unit: CapacityUnit = 'points'
+): CapacitySnapshot[] => {
+  let next = snapshots;
+
+  team.forEach(member => {
+    // Everything committed to the sprint counts, done or not
+    const assignedPoints = sumLoad(
+      issues.filter(i => i.sprintId === sprint.id && i.assigneeId === member.id),
+      unit,
+      getCommittedLoad
+    );
+    const capacity = getMemberSprintCapacity(member, sprint, timeOff, next);
+    const utilization = capacity > 0 ? Math.round((assignedPoints / capacity) * 100) : 0;
+
+    const existing = findSnapshot(next, member.id, sprint.id);
+    if (
+      existing?.capturedAt &&
+      existing.assignedPoints === assignedPoints &&
+      existing.capacity === capacity &&
+      existing.sprintName === sprint.name
+    ) return;
+
+    next = [...next.filter(s => s !== existing), {
+      ...existing,
+      memberId: member.id,
+      sprintId: sprint.id,
+      assignedPoints,
+      utilization,
+      capacity,
+      capturedAt: new Date().toISOString(),
+      sprintName: sprint.name,
+      sprintEndDate: sprint.endDate
+    }];
+  });
+
+  return next;
+};
+
+// --- .ics import ---
+
+const unescapeIcsText = (value: string) => value
+  .replace(/\\n/gi, ' ')
+  .replace(/\\([,;\\])/g, '$1');
+
+// YYYYMMDD[THHMMSS[Z]] to a date key, plus whether it carried a time
+const parseIcsDate = (value: string): { key: string; hasTime: boolean; isMidnight: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss] = match;
+  return {
+    key: `${y}-${m}-${d}`,
+    hasTime: hh !== undefined,
+    isMidnight: hh === '00' && mm === '00' && ss === '00'
+  };
+};
+
+const previousDay = (key: string) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() - 1);
+  return toDateKey(date);
+};
+
+// VEVENTs from an iCalendar file as inclusive day ranges. Recurrence rules are not expanded.
+export const parseIcs = (text: string): Omit<TimeOffEntry, 'id' | 'memberId'>[] => {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: Omit<TimeOffEntry, 'id' | 'memberId'>[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') { current = {}; return; }
+    if (line === 'END:VEVENT') {
+      const event: Record<string, string> | null = current;
+      current = null;
+      if (!event) return;
+
+      const start = parseIcsDate(event.DTSTART || '');
+      if (!start) return;
+      const end = parseIcsDate(event.DTEND || '');
+
+      // All-day DTEND is exclusive; a timed event ending at midnight also ends the day before
+      let endKey = start.key;
+      if (end) endKey = (!end.hasTime || end.isMidnight) && end.key > start.key ? previousDay(end.key) : end.key;
+
+      events.push({
+        startDate: start.key,
+        endDate: endKey < start.key ? start.key : endKey,
+        label: unescapeIcsText(event.SUMMARY || 'Time off')
+      });
+      return;
+    }
+    if (!current) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    current[name] = line.slice(separator + 1);
+  });
+
+  return events;
+};
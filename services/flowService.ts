@@ -0,0 +1,123 @@
+import { JiraIssue, Status } from '../types';
+import { toDateKey, parseDateKey } from './capacityService';
+
+export const DAY_MS = 864e5;
+
+export type FlowDay = { date: string } & Record<Status, number>;
+
+export interface CycleTimeRecord {
+  issue: JiraIssue;
+  startedAt?: string; // first move into In Progress / In Review
+  completedAt: string;
+  cycleDays: number | null; // null when the issue skipped straight to Done
+  leadDays: number | null; // null when the creation date is unknown
+}
+
+const WORK_STATUSES = [Status.IN_PROGRESS, Status.IN_REVIEW];
+
+// Nearest-rank percentile of an unsorted list, p in 0-100
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+};
+
+// When the issue last reached Done, from its history or the resolution date
+export const getCompletedAt = (issue: JiraIssue): string | undefined => {
+  if (issue.status !== Status.DONE) return undefined;
+  const doneTransitions = (issue.statusHistory || []).filter(t => t.to === Status.DONE);
+  return doneTransitions.length > 0
+    ? doneTransitions[doneTransitions.length - 1].at
+    : issue.resolvedAt;
+};
+
+export const getCycleTimes = (issues: JiraIssue[]): CycleTimeRecord[] => {
+  return issues.flatMap(issue => {
+    const completedAt = getCompletedAt(issue);
+    if (!completedAt) return [];
+
+    const completedMs = new Date(completedAt).getTime();
+    const startedAt = (issue.statusHistory || []).find(t => WORK_STATUSES.includes(t.to))?.at;
+
+    return [{
+      issue,
+      startedAt,
+      completedAt,
+      cycleDays: startedAt ? (completedMs - new Date(startedAt).getTime()) / DAY_MS : null,
+      leadDays: issue.createdAt ? (completedMs - new Date(issue.createdAt).getTime()) / DAY_MS : null
+    }];
+  });
+};
+
+// Milliseconds spent in each status, replaying the history from creation until now (or completion)
+export const getTimeInStatus = (issue: JiraIssue, now: number = Date.now()): Record<Status, number> => {
+  const totals: Record<Status, number> = {
+    [Status.TO_DO]: 0,
+    [Status.IN_PROGRESS]: 0,
+    [Status.IN_REVIEW]: 0,
+    [Status.DONE]: 0
+  };
+  const history = issue.statusHistory || [];
+  if (!issue.createdAt) return totals;
+
+  let current: Status = history[0]?.from || (history.length === 0 ? issue.status : Status.TO_DO);
+  let since = new Date(issue.createdAt).getTime();
+
+  history.forEach(t => {
+    const at = new Date(t.at).getTime();
+    totals[current] += Math.max(0, at - since);
+    current = t.to;
+    since = at;
+  });
+
+  if (current !== Status.DONE) totals[current] += Math.max(0, now - since);
+  return totals;
+};
+
+// Status at a moment, replayed from the history; null before the issue existed.
+// Without history, a resolved issue is taken as To Do until its resolution date.
+export const getStatusAt = (issue: JiraIssue, at: number): Status | null => {
+  if (issue.createdAt && at < new Date(issue.createdAt).getTime()) return null;
+
+  const history = issue.statusHistory || [];
+  if (history.length === 0) {
+    if (issue.status === Status.DONE && issue.resolvedAt && at < new Date(issue.resolvedAt).getTime()) return Status.TO_DO;
+    return issue.status;
+  }
+
+  let status: Status = history[0].from || Status.TO_DO;
+  for (const t of history) {
+    if (new Date(t.at).getTime() > at) break;
+    status = t.to;
+  }
+  return status;
+};
+
+// Daily issue counts per status between two YYYY-MM-DD days (inclusive), sampled at the end of each day
+export const getCumulativeFlow = (
+  issues: JiraIssue[],
+  from: string,
+  to: string,
+  now: number = Date.now()
+): FlowDay[] => {
+  const days: FlowDay[] = [];
+  for (let day = parseDateKey(from); toDateKey(day) <= to; day.setDate(day.getDate() + 1)) {
+    const sample = Math.min(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime() - 1, now);
+    if (sample < day.getTime()) break;
+
+    const counts: FlowDay = {
+      date: toDateKey(day),
+      [Status.TO_DO]: 0,
+      [Status.IN_PROGRESS]: 0,
+      [Status.IN_REVIEW]: 0,
+      [Status.DONE]: 0
+    };
+    issues.forEach(issue => {
+      const status = getStatusAt(issue, sample);
+      if (status) counts[status] += 1;
+    });
+    days.push(counts);
+  }
+  return days;
+};
@@ -0,0 +1,161 @@
+import { JiraIssue, Sprint, Status, IssueType, CapacityUnit } from '../types';
+import { getIssueLoad, getOpenSprintOrder, round1, PRIORITY_RANK } from './capacityService';
+import { getSprintVelocities } from './velocityService';
+import { DAY_MS, percentile } from './flowService';
+
+export const SIMULATION_RUNS = 2000;
+// Give up on a trial after this many sprints (e.g. every sampled sprint completed nothing)
+const MAX_SPRINTS = 104;
+const DEFAULT_SPRINT_DAYS = 14;
+// Fixed seed so the forecast doesn't jitter on every render
+const SEED = 0x5eed;
+
+export const CONFIDENCE_LEVELS = [50, 85, 95] as const;
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
+
+export interface DeliveryForecast {
+  key: string;
+  label: string;
+  projectKey?: string;
+  openIssues: number;
+  remaining: number; // in the workspace unit
+  // Completion dates (ISO) by confidence; null when there is no throughput history to sample
+  dates: Record<ConfidenceLevel, string> | null;
+  sprints: Record<ConfidenceLevel, number> | null;
+}
+
+export interface DeliveryForecastResult {
+  projects: DeliveryForecast[];
+  epics: DeliveryForecast[];
+}
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// For each threshold, how many sprints each trial needed to complete that much work
+const simulateSprintsNeeded = (throughput: number[], thresholds: number[], runs: number): number[][] => {
+  const random = createRandom(SEED);
+  const target = Math.max(0, ...thresholds);
+  const results: number[][] = thresholds.map(() => []);
+
+  for (let run = 0; run < runs; run++) {
+    const cumulative: number[] = [0];
+    while (cumulative[cumulative.length - 1] < target && cumulative.length <= MAX_SPRINTS) {
+      const sample = throughput[Math.floor(random() * throughput.length)];
+      cumulative.push(cumulative[cumulative.length - 1] + sample);
+    }
+    thresholds.forEach((threshold, idx) => {
+      const sprintsNeeded = cumulative.findIndex(done => done >= threshold);
+      results[idx].push(sprintsNeeded === -1 ? MAX_SPRINTS : sprintsNeeded);
+    });
+  }
+  return results;
+};
+
+const median = (values: number[]) => percentile(values, 50);
+
+// The epic an issue rolls up to. Sub-task parents are stories and don't count;
+// issues stored before the parent type was kept are taken as epic children, as they used to be.
+export const getEpicKey = (issue: JiraIssue): string | undefined =>
+  issue.parentKey && (issue.parentType === undefined || issue.parentType === IssueType.EPIC) ? issue.parentKey : undefined;
+
+// Open issues in burn-down order: by sprint (unscheduled last), then priority, then key
+export const orderBacklog = (issues: JiraIssue[], projectSprints: Sprint[]): JiraIssue[] => {
+  const sprintOrder = new Map(getOpenSprintOrder(projectSprints).map((s, idx) => [s.id, idx]));
+  return issues
+    .filter(i => i.status !== Status.DONE)
+    .sort((a, b) =>
+      (sprintOrder.get(a.sprintId || '') ?? sprintOrder.size) - (sprintOrder.get(b.sprintId || '') ?? sprintOrder.size) ||
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      a.key.localeCompare(b.key, undefined, { numeric: true })
+    );
+};
+
+// Typical sprint length in days from closed sprints
+export const getSprintLengthDays = (projectSprints: Sprint[]): number => {
+  const closedLengths = projectSprints
+    .filter(s => s.state === 'closed')
+    .map(s => (new Date(s.endDate).getTime() - new Date(s.startDate).getTime()) / DAY_MS)
+    .filter(days => days > 0);
+  return closedLengths.length > 0 ? Math.round(median(closedLengths)) : DEFAULT_SPRINT_DAYS;
+};
+
+// Monte Carlo completion dates per project and per epic.
+// Each project's closed-sprint throughput is resampled; work is burned down in backlog order
+// (active sprint, future sprints, then unscheduled, each by priority), so an epic is done once
+// everything ranked up to its last open issue is done.
+export const forecastDelivery = (
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  unit: CapacityUnit,
+  now: number = Date.now(),
+  runs: number = SIMULATION_RUNS
+): DeliveryForecastResult => {
+  const projectKeys = Array.from(new Set(issues.map(i => i.projectKey || '')));
+  const projects: DeliveryForecast[] = [];
+  const epics: DeliveryForecast[] = [];
+
+  projectKeys.forEach(projectKey => {
+    const projectSprints = sprints.filter(s => (s.projectKey || '') === projectKey);
+    const throughput = getSprintVelocities(issues, projectSprints, unit).map(v => v.completed);
+    const canForecast = throughput.some(t => t > 0);
+
+    const backlog = orderBacklog(issues.filter(i => (i.projectKey || '') === projectKey), projectSprints);
+
+    // Work that has to be done before (and including) each backlog position
+    let running = 0;
+    const cumulativeAt = backlog.map(i => (running += getIssueLoad(i, unit)));
+
+    const epicKeys = Array.from(new Set(backlog.map(getEpicKey).filter((k): k is string => !!k)));
+    const targets = [
+      { key: projectKey, label: projectKey || 'All issues', isEpic: false, items: backlog },
+      ...epicKeys.map(key => {
+        const items = backlog.filter(i => getEpicKey(i) === key);
+        return { key, label: items[0].parentSummary || key, isEpic: true, items };
+      })
+    ];
+    const thresholds = targets.map(t => t.items.length === 0 ? 0 : cumulativeAt[backlog.indexOf(t.items[t.items.length - 1])]);
+
+    const simulated = canForecast ? simulateSprintsNeeded(throughput, thresholds, runs) : null;
+
+    // Sprint length from history; the active sprint (if any) is the first one to finish
+    const sprintDays = getSprintLengthDays(projectSprints);
+    const activeSprint = projectSprints.find(s => s.state === 'active');
+    const dateAfter = (sprintCount: number) => {
+      if (sprintCount === 0) return new Date(now).toISOString();
+      const base = activeSprint ? new Date(activeSprint.endDate).getTime() - sprintDays * DAY_MS : now;
+      return new Date(base + sprintCount * sprintDays * DAY_MS).toISOString();
+    };
+
+    targets.forEach((target, idx) => {
+      const runsForTarget = simulated?.[idx];
+      const sprintsByLevel = runsForTarget
+        ? Object.fromEntries(CONFIDENCE_LEVELS.map(level => [level, percentile(runsForTarget, level)])) as Record<ConfidenceLevel, number>
+        : null;
+
+      const forecast: DeliveryForecast = {
+        key: target.key,
+        label: target.label,
+        projectKey: projectKey || undefined,
+        openIssues: target.items.length,
+        remaining: round1(target.items.reduce((acc, i) => acc + getIssueLoad(i, unit), 0)),
+        sprints: sprintsByLevel,
+        dates: sprintsByLevel
+          ? Object.fromEntries(CONFIDENCE_LEVELS.map(level => [level, dateAfter(sprintsByLevel[level])])) as Record<ConfidenceLevel, string>
+          : null
+      };
+      (target.isEpic ? epics : projects).push(forecast);
+    });
+  });
+
+  return { projects, epics };
+};
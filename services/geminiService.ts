@@ -1,24 +1,33 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { JiraIssue, TeamMember, GeminiAnalysisResult, Sprint } from "../types";
+import { JiraIssue, TeamMember, GeminiAnalysisResult, Sprint, CapacityUnit } from "../types";
+import { getRemainingHours } from "./capacityService";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 export const analyzeCapacity = async (
   team: TeamMember[],
   issues: JiraIssue[],
-  sprints: Sprint[]
+  sprints: Sprint[],
+  unit: CapacityUnit = 'points'
 ): Promise<GeminiAnalysisResult> => {
+  const unitContext = unit === 'hours'
+    ? 'Capacity is planned in hours: capacityPerSprint is hours per two-week sprint, and load is each issue\'s remainingHours (ignore storyPoints).'
+    : 'Capacity is planned in story points: capacityPerSprint is story points per two-week sprint, and load is each issue\'s storyPoints.';
+
   const prompt = `
     Analyze the following project capacity data for a software team.
+    ${unitContext}
     
     Team Context:
     ${JSON.stringify(team)}
 
     Active and Future Sprints:
-    ${JSON.stringify(sprints)}
+    ${JSON.stringify(sprints.filter(s => s.state !== 'closed'))}
 
     Backlog & Assigned Issues:
-    ${JSON.stringify(issues)}
+    ${JSON.stringify(issues.map(({ statusHistory, ...issue }) => 
+      unit === 'hours' ? { ...issue, remainingHours: getRemainingHours(issue) } : issue
+    ))}
 
     Please provide:
     1. A short executive summary of the current capacity status.
@@ -0,0 +1,46 @@
+// Typed errors raised by JiraService so the UI can explain what went wrong
+
+export class JiraError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'JiraError';
+    this.status = status;
+  }
+}
+
+// 401 / 403: bad credentials or missing permissions
+export class JiraAuthError extends JiraError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'JiraAuthError';
+  }
+}
+
+// 404: wrong domain, project key, board or issue
+export class JiraNotFoundError extends JiraError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'JiraNotFoundError';
+  }
+}
+
+// 429 after all retries were used up
+export class JiraRateLimitError extends JiraError {
+  retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429);
+    this.name = 'JiraRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// The request never got a response: offline, DNS, CORS or proxy failure
+export class JiraNetworkError extends JiraError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JiraNetworkError';
+  }
+}
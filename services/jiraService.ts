@@ -1,4 +1,7 @@
-import { JiraConfig, JiraIssue, TeamMember, Sprint, IssueType, Priority, Status } from '../types';
+import { JiraConfig, JiraIssue, TeamMember, Sprint, IssueType, Priority, Status, JiraFieldCandidates, JiraBoard, Worklog, StatusTransition, SprintChange, WorkflowMapping } from '../types';
+import { 
+  JiraError, JiraAuthError, JiraNotFoundError, JiraRateLimitError, JiraNetworkError 
+} from './jiraErrors';
 
 // Helper to determine Issue Type from string
 export const mapIssueType = (type: string): IssueType => {
@@ -9,6 +12,58 @@ export const mapIssueType = (type: string): IssueType => {
   return IssueType.STORY;
 };
 
+// Parent's issue type. Jira Cloud reports the hierarchy level (1 and up is epic-level, whatever the
+// type is called); Data Center only sets `parent` on sub-tasks, so the name is enough there.
+const mapParentType = (issueType: any): IssueType | undefined => {
+  if (!issueType) return undefined;
+  if (typeof issueType.hierarchyLevel === 'number' && issueType.hierarchyLevel >= 1) return IssueType.EPIC;
+  return mapIssueType(issueType.name || '');
+};
+
+// Apply a project's workflow mapping on top of the heuristic mappers above.
+// Names missing from the mapping keep their heuristic value.
+export const applyWorkflowMapping = (issue: JiraIssue, mapping?: WorkflowMapping): JiraIssue => {
+  if (!mapping) return issue;
+  const lookup = <T,>(table: Record<string, T>, name: string | undefined, fallback: T): T =>
+    (name !== undefined && table[name] !== undefined) ? table[name] : fallback;
+
+  return {
+    ...issue,
+    type: lookup(mapping.issueTypes, issue.jiraType, issue.type),
+    priority: lookup(mapping.priorities, issue.jiraPriority, issue.priority),
+    status: lookup(mapping.statuses, issue.jiraStatus, issue.status),
+    statusHistory: issue.statusHistory?.map(t => ({
+      ...t,
+      from: t.from === null ? null : lookup(mapping.statuses, t.fromName, t.from),
+      to: lookup(mapping.statuses, t.toName, t.to)
+    }))
+  };
+};
+
+// Cloud identifies users by accountId, Server / Data Center by username
+export const getUserId = (user: any): string | undefined => user?.accountId || user?.name || undefined;
+
+// Data Center's REST v2 can return sprint field values as greenhopper strings:
+// "com.atlassian.greenhopper.service.sprint.Sprint@1a2b[id=12,rapidViewId=3,state=ACTIVE,name=Sprint 4,...]"
+const parseSprintValue = (value: any): { id?: string; state?: string } => {
+  if (typeof value === 'string') {
+    return {
+      id: value.match(/\bid=(\d+)/)?.[1],
+      state: value.match(/\bstate=(\w+)/)?.[1]?.toLowerCase()
+    };
+  }
+  return { id: value?.id?.toString(), state: value?.state?.toLowerCase() };
+};
+
+// Helper to flatten an Atlassian Document Format node (v3 comments) into plain text
+const adfToText = (node: any): string => {
+  if (!node) return '';
+  if (typeof node === 'string') return node;
+  if (node.type === 'text') return node.text || '';
+  const parts = Array.isArray(node.content) ? node.content.map(adfToText) : [];
+  return parts.join(node.type === 'doc' ? '\n' : '');
+};
+
 // Helper to determine Priority
 export const mapPriority = (priority: string): Priority => {
   const lower = priority.toLowerCase();
@@ -29,9 +84,93 @@ export const mapStatus = (status: string, statusCategory?: string): Status => {
   return Status.TO_DO;
 };
 
+// Jira Cloud caps /search/jql pages at 100 issues when fields are requested
+const ISSUE_PAGE_SIZE = 100;
+// ...and at 5000 when only IDs are requested
+const ISSUE_ID_PAGE_SIZE = 5000;
+
+// Default upper bound on issues fetched per project when JiraConfig.maxIssues is unset
+export const DEFAULT_MAX_ISSUES = 5000;
+
+// Most common custom field IDs on team-managed Jira Cloud projects, used when detection finds nothing
+export const DEFAULT_STORY_POINTS_FIELD = 'customfield_10016';
+export const DEFAULT_SPRINT_FIELD = 'customfield_10020';
+
+// Default number of closed sprints kept per board for velocity and retrospective reporting
+export const DEFAULT_CLOSED_SPRINT_HISTORY = 6;
+
+const SPRINT_PAGE_SIZE = 50;
+const WORKLOG_PAGE_SIZE = 100;
+
+// Retry policy for transient failures: 429, 5xx and network errors
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 15000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+// Bulk fetches (worklogs per issue, sprints per board) keep at most this many requests in flight
+export const BULK_CONCURRENCY = 4;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number) => 
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+// Retry-After is either delta-seconds or an HTTP date; returns milliseconds
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Run fn over items with at most `limit` calls in flight, preserving result order
+export const mapWithConcurrency = async <T, R>(
+  items: T[], 
+  limit: number, 
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const SPRINT_FIELD_SCHEMA = 'com.pyxis.greenhopper.jira:gh-sprint';
+const STORY_POINTS_FIELD_SCHEMA = 'com.pyxis.greenhopper.jira:jsw-story-points';
+
+interface IssueFieldIds {
+  storyPointsField: string;
+  sprintField: string;
+}
+
+interface IssueSearchOptions {
+  jql: string;
+  fields: string[];
+  limit: number;
+  pageSize: number;
+  context: string;
+  expand?: string;
+  onPage?: (loaded: number) => void;
+}
+
 export class JiraService {
-  private config: JiraConfig;
+  protected config: JiraConfig;
   private baseUrl: string;
+  protected apiPath = '/rest/api/3';
+  protected credentialsLabel = 'email or API token';
 
   constructor(config: JiraConfig) {
     this.config = config;
@@ -39,7 +178,7 @@ export class JiraService {
     this.baseUrl = config.domain.replace(/\/$/, '');
   }
 
-  private get headers() {
+  protected get headers() {
     return {
       'Authorization': `Basic ${btoa(`${this.config.email}:${this.config.apiToken}`)}`,
       'Accept': 'application/json',
@@ -48,8 +187,46 @@ export class JiraService {
     };
   }
 
-  // Helper to handle Proxy URL construction with fallback
-  private async fetchFromJira(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  // Request with retries: honours Retry-After on 429, backs off on 5xx and network errors.
+  // Non-retryable responses (and the last retry) are returned as-is for assertOk to classify.
+  protected async fetchFromJira(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.sendRequest(endpoint, options);
+      } catch (e) {
+        if (attempt >= MAX_RETRIES) throw e;
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= MAX_RETRIES) return response;
+
+      const retryAfter = response.status === 429 
+        ? parseRetryAfter(response.headers.get('Retry-After')) 
+        : undefined;
+      await sleep(retryAfter !== undefined ? Math.min(retryAfter, MAX_RETRY_AFTER_MS) : backoffDelay(attempt));
+    }
+  }
+
+  // Throw a typed error for a failed response
+  protected async assertOk(response: Response, context: string): Promise<void> {
+    if (response.ok) return;
+
+    const body = await response.text().catch(() => '');
+    const message = `${context} (${response.status}): ${body.slice(0, 300) || response.statusText}`;
+
+    if (response.status === 401 || response.status === 403) throw new JiraAuthError(message, response.status);
+    if (response.status === 404) throw new JiraNotFoundError(message);
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new JiraRateLimitError(message, retryAfter !== undefined ? Math.ceil(retryAfter / 1000) : undefined);
+    }
+    throw new JiraError(message, response.status);
+  }
+
+  // Single attempt, with Proxy URL construction and fallback
+  private async sendRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
     const targetUrl = `${this.baseUrl}${endpoint}`;
     
     // Merge headers
@@ -63,8 +240,25 @@ export class JiraService {
       headers: reqHeaders
     };
 
+    // Self-hosted proxy: forwards to the allow-listed domain named in X-Jira-Domain
+    if (this.config.proxyUrl) {
+      const proxyBase = this.config.proxyUrl.replace(/\/$/, '');
+      try {
+        return await fetch(`${proxyBase}${endpoint}`, {
+          ...reqOptions,
+          headers: { ...reqHeaders, 'X-Jira-Domain': this.baseUrl }
+        });
+      } catch (e: any) {
+        throw new JiraNetworkError(`Network Error: Could not reach the proxy at ${proxyBase} (${e.message || e}).`);
+      }
+    }
+
     if (!this.config.useProxy) {
-      return fetch(targetUrl, reqOptions);
+      try {
+        return await fetch(targetUrl, reqOptions);
+      } catch (e: any) {
+        throw new JiraNetworkError(`Network Error: Could not reach Jira (${e.message || e}).`);
+      }
     }
 
     // Proxy fallback strategy
@@ -88,22 +282,23 @@ export class JiraService {
       }
     }
 
-    throw lastError || new Error("Network Error: Could not reach Jira via any proxy.");
+    throw new JiraNetworkError(
+      `Network Error: Could not reach Jira via any proxy${lastError ? ` (${lastError.message})` : ''}.`
+    );
   }
 
   async validateConnection(): Promise<boolean> {
     try {
-      // Use v3/myself which is standard
-      const response = await this.fetchFromJira('/rest/api/3/myself');
+      // /myself is available on every deployment and API version
+      const response = await this.fetchFromJira(`${this.apiPath}/myself`);
       
       if (!response.ok) {
-        if (response.status === 401) throw new Error("Unauthorized: Invalid email or API token.");
-        if (response.status === 404) throw new Error("Not Found: Check your Jira Domain URL.");
-        if (response.status === 403) throw new Error("Forbidden: You may not have permission to access this Jira instance.");
+        if (response.status === 401) throw new JiraAuthError(`Unauthorized: Invalid ${this.credentialsLabel}.`, 401);
+        if (response.status === 404) throw new JiraNotFoundError("Not Found: Check your Jira Domain URL.");
+        if (response.status === 403) throw new JiraAuthError("Forbidden: You may not have permission to access this Jira instance.", 403);
         
-        // Attempt to read error message from body
-        const errText = await response.text();
-        throw new Error(`Jira Error (${response.status}): ${errText || response.statusText}`);
+        // Classify anything else (rate limits, server errors) from the body
+        await this.assertOk(response, 'Jira Error');
       }
       return true;
     } catch (e: any) {
@@ -114,76 +309,276 @@ export class JiraService {
   }
 
   async getProjectDetails() {
-    const response = await this.fetchFromJira(`/rest/api/3/project/${this.config.projectKey}`);
-    if (!response.ok) throw new Error(`Failed to fetch project: ${response.statusText}`);
+    const response = await this.fetchFromJira(`${this.apiPath}/project/${this.config.projectKey}`);
+    await this.assertOk(response, 'Failed to fetch project');
     return response.json();
   }
 
+  // Find custom fields that look like story points or sprints on this Jira site
+  async discoverFields(): Promise<JiraFieldCandidates> {
+    const response = await this.fetchFromJira(`${this.apiPath}/field`);
+    await this.assertOk(response, 'Failed to fetch fields');
+    const fields = await response.json();
+
+    return JiraService.parseFieldCandidatesFromRaw(fields);
+  }
+
+  // Seed a workflow mapping from the statuses, issue types and priorities this project actually uses.
+  // Entries from an existing mapping (user edits) take precedence.
+  async getWorkflowMapping(existing?: WorkflowMapping): Promise<WorkflowMapping> {
+    const [statusResp, priorityResp] = await Promise.all([
+      this.fetchFromJira(`${this.apiPath}/project/${this.config.projectKey}/statuses`),
+      this.fetchFromJira(`${this.apiPath}/priority`)
+    ]);
+
+    await this.assertOk(statusResp, 'Failed to fetch project statuses');
+    await this.assertOk(priorityResp, 'Failed to fetch priorities');
+
+    const [statusData, priorityData] = await Promise.all([statusResp.json(), priorityResp.json()]);
+    return JiraService.parseWorkflowMappingFromRaw(statusData, priorityData, existing);
+  }
+
   async getTeamMembers(): Promise<TeamMember[]> {
     const response = await this.fetchFromJira(
-      `/rest/api/3/user/assignable/search?project=${this.config.projectKey}`
+      `${this.apiPath}/user/assignable/search?project=${this.config.projectKey}`
     );
     
-    if (!response.ok) throw new Error(`Failed to fetch users: ${response.statusText}`);
+    await this.assertOk(response, 'Failed to fetch users');
     const users = await response.json();
 
     return JiraService.parseTeamFromRaw(users);
   }
 
-  async getSprints(): Promise<Sprint[]> {
+  async getBoards(): Promise<JiraBoard[]> {
     // Agile API 1.0 is stable
-    const boardResp = await this.fetchFromJira(
+    const response = await this.fetchFromJira(
       `/rest/agile/1.0/board?projectKeyOrId=${this.config.projectKey}`
     );
     
-    if (!boardResp.ok) throw new Error(`Failed to fetch boards: ${boardResp.statusText}`);
-    const boardData = await boardResp.json();
-    
-    if (boardData.values.length === 0) return [];
-    
-    // Use the first board found
-    const boardId = boardData.values[0].id;
+    await this.assertOk(response, 'Failed to fetch boards');
+    const boardData = await response.json();
 
-    const sprintResp = await this.fetchFromJira(
-      `/rest/agile/1.0/board/${boardId}/sprint?state=active,future`
-    );
+    return JiraService.parseBoardsFromRaw(boardData);
+  }
+
+  async getSprints(): Promise<Sprint[]> {
+    let boardIds = this.config.boardIds;
+
+    if (!boardIds || boardIds.length === 0) {
+      const boards = await this.getBoards();
+      if (boards.length === 0) return [];
+      // Use the first board found
+      boardIds = [boards[0].id];
+    }
+
+    const historySize = this.config.closedSprintHistory ?? DEFAULT_CLOSED_SPRINT_HISTORY;
+    const sprintMap = new Map<string, Sprint>();
+
+    const boardSprints = await mapWithConcurrency(boardIds, BULK_CONCURRENCY, async boardId => {
+      const openSprints = await this.getBoardSprints(boardId, 'active,future');
+      const closedSprints = historySize > 0 ? await this.getBoardSprints(boardId, 'closed') : [];
+
+      // Keep only the most recent closed sprints
+      const recentClosed = closedSprints
+        .sort((a, b) => new Date(b.endDate).getTime() - new Date(a.endDate).getTime())
+        .slice(0, historySize);
+
+      return [...openSprints, ...recentClosed].map(sprint => ({ ...sprint, boardId }));
+    });
 
-    if (!sprintResp.ok) throw new Error(`Failed to fetch sprints: ${sprintResp.statusText}`);
-    const sprintData = await sprintResp.json();
+    // Sprints can be shared between boards: keep the first board that reported them
+    boardSprints.flat().forEach(sprint => {
+      if (!sprintMap.has(sprint.id)) sprintMap.set(sprint.id, sprint);
+    });
 
-    return JiraService.parseSprintsFromRaw(sprintData);
+    return Array.from(sprintMap.values());
   }
 
-  async getIssues(): Promise<JiraIssue[]> {
-    // Modified JQL to include recent Done issues to allow for Time Tracking analysis
-    // Fetching last 100 issues regardless of status, or we could limit by date `updated >= -30d`
-    const jql = `project = "${this.config.projectKey}" ORDER BY updated DESC`;
-    
-    // Included customfield_10020 which is the most common Sprint field ID
-    // Added 'timespent', 'timeoriginalestimate', 'parent' for time tracking
+  private async getBoardSprints(boardId: string, state: string): Promise<Sprint[]> {
+    const values: any[] = [];
+    let startAt = 0;
+    let isLast = false;
+
+    while (!isLast) {
+      const sprintResp = await this.fetchFromJira(
+        `/rest/agile/1.0/board/${boardId}/sprint?state=${state}&startAt=${startAt}&maxResults=${SPRINT_PAGE_SIZE}`
+      );
+
+      // Kanban boards reject sprint queries with 400: they simply have no sprints
+      if (sprintResp.status === 400) return [];
+      await this.assertOk(sprintResp, 'Failed to fetch sprints');
+      const sprintData = await sprintResp.json();
+
+      const page = sprintData.values || [];
+      values.push(...page);
+      startAt += page.length;
+      isLast = sprintData.isLast !== false || page.length === 0;
+    }
+
+    return JiraService.parseSprintsFromRaw(values);
+  }
+
+  protected buildIssueJql(updatedSince?: string) {
+    // Include recent Done issues to allow for Time Tracking analysis
+    // JQL dates are interpreted in the user's timezone, so look back a day and rely on upserts to dedupe
+    const since = updatedSince 
+      ? ` AND updated >= "${new Date(new Date(updatedSince).getTime() - 864e5).toISOString().slice(0, 10)}"`
+      : '';
+    return `project = "${this.config.projectKey}"${since} ORDER BY updated DESC`;
+  }
+
+  // Approximate number of issues matching the sync JQL, used for progress and truncation notices
+  async getIssueCount(): Promise<number> {
+    const response = await this.fetchFromJira('/rest/api/3/search/approximate-count', {
+      method: 'POST',
+      body: JSON.stringify({ jql: this.buildIssueJql() })
+    });
+
+    await this.assertOk(response, 'Failed to count issues');
+    const data = await response.json();
+    return typeof data.count === 'number' ? data.count : 0;
+  }
+
+  // IDs of every issue a full sync would load, used to detect deletions during incremental refreshes
+  async getIssueIds(): Promise<string[]> {
+    const rawIssues = await this.searchIssues({
+      jql: this.buildIssueJql(),
+      fields: ['id'],
+      limit: this.config.maxIssues || DEFAULT_MAX_ISSUES,
+      pageSize: ISSUE_ID_PAGE_SIZE,
+      context: 'Failed to fetch issue IDs'
+    });
+
+    return rawIssues.map((i: any) => i.id.toString());
+  }
+
+  // Pass updatedSince (ISO timestamp) to only fetch issues changed after a previous sync
+  async getIssues(onProgress?: (loaded: number) => void, updatedSince?: string): Promise<JiraIssue[]> {
+    const maxIssues = this.config.maxIssues || DEFAULT_MAX_ISSUES;
+
+    // Story point and sprint field IDs vary per site, see discoverFields()
+    // Added 'timespent', 'timeoriginalestimate', 'timeestimate', 'parent' for time tracking
+    // Added 'created', 'resolutiondate' plus the changelog expand for cycle time analytics
+    // Added 'labels', 'components' for skill matching
+    const fieldIds = this.fieldIds;
     const fields = [
       'summary', 'status', 'priority', 'issuetype', 'assignee', 
-      'customfield_10016', 'sprint', 'customfield_10020',
-      'timespent', 'timeoriginalestimate', 'parent'
+      fieldIds.storyPointsField, 'sprint', fieldIds.sprintField,
+      'timespent', 'timeoriginalestimate', 'timeestimate', 'parent',
+      'created', 'resolutiondate', 'labels', 'components'
     ];
-    
-    const params = new URLSearchParams();
-    params.append('jql', jql);
-    params.append('maxResults', '100');
-    params.append('fields', fields.join(','));
 
-    const response = await this.fetchFromJira(`/rest/api/3/search/jql?${params.toString()}`, {
-      method: 'GET'
+    const rawIssues = await this.searchIssues({
+      jql: this.buildIssueJql(updatedSince),
+      fields,
+      limit: maxIssues,
+      pageSize: ISSUE_PAGE_SIZE,
+      context: 'Failed to fetch issues',
+      expand: 'changelog',
+      onPage: onProgress
     });
 
-    if (!response.ok) {
-       const errText = await response.text();
-       throw new Error(`Failed to fetch issues (${response.status}): ${errText}`);
-    }
-    const data = await response.json();
-
     // Pass the configured domain to the parser
-    return JiraService.parseIssuesFromRaw(data, this.config.domain);
+    return JiraService.parseIssuesFromRaw(rawIssues, this.config.domain, fieldIds)
+      .map(issue => applyWorkflowMapping(issue, this.config.workflowMapping));
+  }
+
+  // Raw issues matching a JQL query, up to `limit`.
+  // Cloud's /search/jql is token-paginated: keep following nextPageToken until the last page or the limit
+  protected async searchIssues({ jql, fields, limit, pageSize, context, expand, onPage }: IssueSearchOptions): Promise<any[]> {
+    const rawIssues: any[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams();
+      params.append('jql', jql);
+      params.append('maxResults', Math.min(pageSize, limit - rawIssues.length).toString());
+      params.append('fields', fields.join(','));
+      if (expand) params.append('expand', expand);
+      if (nextPageToken) params.append('nextPageToken', nextPageToken);
+
+      const response = await this.fetchFromJira(`/rest/api/3/search/jql?${params.toString()}`);
+      await this.assertOk(response, context);
+      const data = await response.json();
+
+      rawIssues.push(...(data.issues || []));
+      onPage?.(rawIssues.length);
+
+      nextPageToken = data.isLast ? undefined : data.nextPageToken;
+    } while (nextPageToken && rawIssues.length < limit);
+
+    return rawIssues.slice(0, limit);
+  }
+
+  protected get fieldIds(): IssueFieldIds {
+    return {
+      storyPointsField: this.config.storyPointsField || DEFAULT_STORY_POINTS_FIELD,
+      sprintField: this.config.sprintField || DEFAULT_SPRINT_FIELD
+    };
+  }
+
+  // Reassign an issue; pass null to unassign it
+  async assignIssue(issueKey: string, assigneeId: string | null): Promise<void> {
+    const response = await this.fetchFromJira(`${this.apiPath}/issue/${issueKey}/assignee`, {
+      method: 'PUT',
+      body: JSON.stringify(this.assigneePayload(assigneeId))
+    });
+
+    await this.assertOk(response, `Failed to assign ${issueKey}`);
+  }
+
+  protected assigneePayload(assigneeId: string | null): Record<string, string | null> {
+    return { accountId: assigneeId };
+  }
+
+  // Move issues into a sprint, or back to the backlog when sprintId is null (Agile API, same on every deployment)
+  async moveIssuesToSprint(issueKeys: string[], sprintId: string | null): Promise<void> {
+    const endpoint = sprintId 
+      ? `/rest/agile/1.0/sprint/${sprintId}/issue` 
+      : '/rest/agile/1.0/backlog/issue';
+    const response = await this.fetchFromJira(endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ issues: issueKeys })
+    });
+
+    await this.assertOk(response, sprintId ? `Failed to move issues to sprint ${sprintId}` : 'Failed to move issues to the backlog');
+  }
+
+  // Worklogs for every issue with logged time, so hours can be attributed to their real author and date
+  async getWorklogs(issues: JiraIssue[], onProgress?: (done: number, total: number) => void): Promise<Worklog[]> {
+    const loggedIssues = issues.filter(i => i.timeSpentSeconds > 0);
+    let done = 0;
+
+    const results = await mapWithConcurrency(loggedIssues, BULK_CONCURRENCY, async issue => {
+      const issueWorklogs = await this.getIssueWorklogs(issue);
+      onProgress?.(++done, loggedIssues.length);
+      return issueWorklogs;
+    });
+
+    return results.flat();
+  }
+
+  private async getIssueWorklogs(issue: JiraIssue): Promise<Worklog[]> {
+    const rawWorklogs: any[] = [];
+    let startAt = 0;
+    let total = 0;
+
+    do {
+      const response = await this.fetchFromJira(
+        `${this.apiPath}/issue/${issue.key}/worklog?startAt=${startAt}&maxResults=${WORKLOG_PAGE_SIZE}`
+      );
+
+      await this.assertOk(response, `Failed to fetch worklogs for ${issue.key}`);
+      const data = await response.json();
+
+      const page = data.worklogs || [];
+      rawWorklogs.push(...page);
+      startAt += page.length;
+      total = data.total || 0;
+      if (page.length === 0) break;
+    } while (startAt < total);
+
+    return JiraService.parseWorklogsFromRaw(rawWorklogs, issue.id);
   }
 
   // --- Static Parsers for Manual Import ---
@@ -191,9 +586,10 @@ export class JiraService {
   static parseTeamFromRaw(users: any[]): TeamMember[] {
     if (!Array.isArray(users)) return [];
     return users
-      .filter((u: any) => u.accountType === 'atlassian')
+      // Cloud marks humans with accountType; Data Center has no app users but does list inactive ones
+      .filter((u: any) => u.accountType ? u.accountType === 'atlassian' : u.active !== false)
       .map((u: any) => ({
-        id: u.accountId,
+        id: getUserId(u) as string,
         name: u.displayName,
         role: 'Developer',
         avatar: u.avatarUrls?.['48x48'] || '',
@@ -202,6 +598,115 @@ export class JiraService {
       }));
   }
 
+  static parseWorkflowMappingFromRaw(statusData: any, priorityData: any, existing?: WorkflowMapping): WorkflowMapping {
+    const seeded: WorkflowMapping = { statuses: {}, priorities: {}, issueTypes: {} };
+
+    // /project/{key}/statuses lists each issue type with the statuses of its workflow
+    if (Array.isArray(statusData)) {
+      statusData.forEach((issueType: any) => {
+        seeded.issueTypes[issueType.name] = mapIssueType(issueType.name || '');
+        (issueType.statuses || []).forEach((st: any) => {
+          seeded.statuses[st.name] = mapStatus(st.name || '', st.statusCategory?.name);
+        });
+      });
+    }
+
+    const priorities = priorityData?.values || priorityData;
+    if (Array.isArray(priorities)) {
+      priorities.forEach((p: any) => { seeded.priorities[p.name] = mapPriority(p.name || ''); });
+    }
+
+    return {
+      statuses: { ...seeded.statuses, ...existing?.statuses },
+      priorities: { ...seeded.priorities, ...existing?.priorities },
+      issueTypes: { ...seeded.issueTypes, ...existing?.issueTypes }
+    };
+  }
+
+  static parseFieldCandidatesFromRaw(fields: any[]): JiraFieldCandidates {
+    if (!Array.isArray(fields)) return { storyPoints: [], sprint: [] };
+
+    const toField = (f: any) => ({ id: f.id, name: f.name });
+    const customFields = fields.filter((f: any) => f.custom);
+
+    return {
+      storyPoints: customFields
+        .filter((f: any) => 
+          f.schema?.custom === STORY_POINTS_FIELD_SCHEMA || /story\s*points?/i.test(f.name || '')
+        )
+        .map(toField),
+      sprint: customFields
+        .filter((f: any) => f.schema?.custom === SPRINT_FIELD_SCHEMA)
+        .map(toField)
+    };
+  }
+
+  static parseBoardsFromRaw(boardData: any): JiraBoard[] {
+    const values = boardData.values || boardData;
+    if (!Array.isArray(values)) return [];
+
+    return values.map((b: any) => ({
+      id: b.id.toString(),
+      name: b.name,
+      type: b.type || 'scrum'
+    }));
+  }
+
+  static parseWorklogsFromRaw(data: any, issueId?: string): Worklog[] {
+    const worklogs = data.worklogs || data; // Handle both wrapper and array
+    if (!Array.isArray(worklogs)) return [];
+
+    return worklogs.map((w: any) => ({
+      id: w.id.toString(),
+      issueId: (w.issueId || issueId || '').toString(),
+      authorId: getUserId(w.author) || 'unknown',
+      authorName: w.author?.displayName || 'Unknown',
+      started: w.started,
+      timeSpentSeconds: w.timeSpentSeconds || 0,
+      comment: adfToText(w.comment) || undefined
+    }));
+  }
+
+  // Status changes from an issue's changelog histories, oldest first
+  static parseStatusHistoryFromRaw(histories: any[]): StatusTransition[] {
+    if (!Array.isArray(histories)) return [];
+
+    const transitions: StatusTransition[] = [];
+    histories.forEach((h: any) => {
+      (h.items || [])
+        .filter((item: any) => item.field === 'status' || item.fieldId === 'status')
+        .forEach((item: any) => {
+          transitions.push({
+            at: h.created,
+            from: item.fromString ? mapStatus(item.fromString) : null,
+            to: mapStatus(item.toString || ''),
+            fromName: item.fromString || undefined,
+            toName: item.toString || undefined
+          });
+        });
+    });
+
+    return transitions.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }
+
+  // Sprint field changes from an issue's changelog histories, oldest first.
+  // The changelog lists sprint ids as "12, 34".
+  static parseSprintHistoryFromRaw(histories: any[]): SprintChange[] {
+    if (!Array.isArray(histories)) return [];
+    const ids = (value: any) => (value ? String(value) : '').split(',').map(id => id.trim()).filter(Boolean);
+
+    const changes: SprintChange[] = [];
+    histories.forEach((h: any) => {
+      (h.items || [])
+        .filter((item: any) => item.field === 'Sprint')
+        .forEach((item: any) => {
+          changes.push({ at: h.created, from: ids(item.from), to: ids(item.to) });
+        });
+    });
+
+    return changes.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }
+
   static parseSprintsFromRaw(sprintData: any): Sprint[] {
     const values = sprintData.values || sprintData; // Handle both wrapped and unwrapped
     if (!Array.isArray(values)) return [];
@@ -211,18 +716,21 @@ export class JiraService {
       name: s.name,
       startDate: s.startDate || new Date().toISOString(),
       endDate: s.endDate || new Date(Date.now() + 12096e5).toISOString(),
-      state: s.state
+      state: s.state?.toLowerCase()
     }));
   }
 
-  static parseIssuesFromRaw(data: any, domain?: string): JiraIssue[] {
+  static parseIssuesFromRaw(data: any, domain?: string, fieldIds?: IssueFieldIds): JiraIssue[] {
     const issues = data.issues || data; // Handle both wrapper and array
     if (!Array.isArray(issues)) return [];
 
     const cleanDomain = domain ? domain.replace(/\/$/, '') : undefined;
+    const storyPointsField = fieldIds?.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+    const sprintField = fieldIds?.sprintField || DEFAULT_SPRINT_FIELD;
 
     return issues.map((i: any) => {
-      const storyPoints = i.fields.customfield_10016 || 0;
+      const storyPoints = i.fields[storyPointsField] || 0;
+      const sprintValues = i.fields[sprintField];
       
       // Determine Sprint ID from standard fields or custom fields
       let sprintId = undefined;
@@ -231,14 +739,15 @@ export class JiraService {
       if (i.fields.sprint && i.fields.sprint.id) {
          sprintId = i.fields.sprint.id.toString();
       } 
-      // Method 2: 'customfield_10020' (common Sprint array field)
-      else if (i.fields.customfield_10020 && Array.isArray(i.fields.customfield_10020)) {
-         // Find active sprint, or default to the first one
-         const active = i.fields.customfield_10020.find((s: any) => s.state === 'active');
-         const future = i.fields.customfield_10020.find((s: any) => s.state === 'future');
-         const target = active || future || i.fields.customfield_10020[0];
+      // Method 2: the site's Sprint custom field (an array of sprints)
+      else if (sprintValues && Array.isArray(sprintValues)) {
+         // Find active sprint, or default to the most recent one (Jira lists them oldest first)
+         const parsed = sprintValues.map(parseSprintValue);
+         const active = parsed.find(s => s.state === 'active');
+         const future = parsed.find(s => s.state === 'future');
+         const target = active || future || parsed[parsed.length - 1];
          if (target && target.id) {
-            sprintId = target.id.toString();
+            sprintId = target.id;
          }
       }
 
@@ -249,17 +758,95 @@ export class JiraService {
         type: mapIssueType(i.fields.issuetype?.name || ''),
         priority: mapPriority(i.fields.priority?.name || ''),
         status: mapStatus(i.fields.status?.name || '', i.fields.status?.statusCategory?.name),
-        assigneeId: i.fields.assignee?.accountId || null,
+        assigneeId: getUserId(i.fields.assignee) || null,
         storyPoints: typeof storyPoints === 'number' ? storyPoints : 0,
         sprintId: sprintId,
         browserUrl: cleanDomain ? `${cleanDomain}/browse/${i.key}` : undefined,
         // Time Tracking (Seconds to Seconds)
         timeSpentSeconds: i.fields.timespent || 0,
         timeEstimateSeconds: i.fields.timeoriginalestimate || 0,
+        remainingEstimateSeconds: typeof i.fields.timeestimate === 'number' ? i.fields.timeestimate : undefined,
         // Parent/Epic Info
         parentKey: i.fields.parent?.key,
-        parentSummary: i.fields.parent?.fields?.summary
+        parentSummary: i.fields.parent?.fields?.summary,
+        parentType: mapParentType(i.fields.parent?.fields?.issuetype),
+        // Skill signals
+        labels: Array.isArray(i.fields.labels) ? i.fields.labels : [],
+        components: Array.isArray(i.fields.components) ? i.fields.components.map((c: any) => c.name).filter(Boolean) : [],
+        // Raw names for the workflow mapping
+        jiraType: i.fields.issuetype?.name,
+        jiraPriority: i.fields.priority?.name,
+        jiraStatus: i.fields.status?.name,
+        // Flow History (only present when fetched with expand=changelog)
+        createdAt: i.fields.created,
+        resolvedAt: i.fields.resolutiondate || undefined,
+        statusHistory: i.changelog ? JiraService.parseStatusHistoryFromRaw(i.changelog.histories) : undefined,
+        sprintHistory: i.changelog ? JiraService.parseSprintHistoryFromRaw(i.changelog.histories) : undefined
       };
     });
   }
 }
+
+// Jira Server / Data Center: personal access tokens, REST API v2 and startAt-paginated search.
+// Agile endpoints are shared with Cloud, so boards and sprints come from the base class unchanged.
+export class JiraDataCenterService extends JiraService {
+  protected apiPath = '/rest/api/2';
+  protected credentialsLabel = 'personal access token';
+
+  protected get headers() {
+    return {
+      'Authorization': `Bearer ${this.config.apiToken}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'X-Atlassian-Token': 'no-check'
+    };
+  }
+
+  protected assigneePayload(assigneeId: string | null): Record<string, string | null> {
+    return { name: assigneeId };
+  }
+
+  // Data Center has no approximate-count endpoint, but search reports an exact total
+  async getIssueCount(): Promise<number> {
+    const params = new URLSearchParams();
+    params.append('jql', this.buildIssueJql());
+    params.append('maxResults', '0');
+
+    const response = await this.fetchFromJira(`${this.apiPath}/search?${params.toString()}`);
+    await this.assertOk(response, 'Failed to count issues');
+    const data = await response.json();
+    return typeof data.total === 'number' ? data.total : 0;
+  }
+
+  // /rest/api/2/search pages by offset; the server may clamp maxResults, so advance by what came back
+  protected async searchIssues({ jql, fields, limit, pageSize, context, expand, onPage }: IssueSearchOptions): Promise<any[]> {
+    const rawIssues: any[] = [];
+    let total = 0;
+
+    do {
+      const params = new URLSearchParams();
+      params.append('jql', jql);
+      params.append('startAt', rawIssues.length.toString());
+      params.append('maxResults', Math.min(pageSize, limit - rawIssues.length).toString());
+      params.append('fields', fields.join(','));
+      if (expand) params.append('expand', expand);
+
+      const response = await this.fetchFromJira(`${this.apiPath}/search?${params.toString()}`);
+      await this.assertOk(response, context);
+      const data = await response.json();
+
+      const page = data.issues || [];
+      rawIssues.push(...page);
+      onPage?.(rawIssues.length);
+
+      total = data.total || 0;
+      if (page.length === 0) break;
+    } while (rawIssues.length < total && rawIssues.length < limit);
+
+    return rawIssues.slice(0, limit);
+  }
+}
+
+// Pick the adapter matching the configured deployment
+export const createJiraService = (config: JiraConfig): JiraService =>
+  config.deployment === 'datacenter' ? new JiraDataCenterService(config) : new JiraService(config);
@@ -0,0 +1,183 @@
+import { JiraIssue, Sprint, Status, TeamMember, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { getIssueLoad, getCommittedLoad, getRemainingHours, getTeamSprintCapacity, getOpenSprintOrder, toDateKey, round1 } from './capacityService';
+import { getCompletedAt, DAY_MS } from './flowService';
+import { orderBacklog, getSprintLengthDays, getEpicKey } from './forecastService';
+
+// Epic key -> target date (YYYY-MM-DD)
+export type EpicTargets = Record<string, string>;
+
+// Stop projecting sprints past the known ones after this many (about two years of two-week sprints)
+const MAX_PROJECTED_SPRINTS = 52;
+
+export interface RoadmapSprint {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  isProjected: boolean; // beyond the sprints that exist in Jira
+}
+
+export interface EpicRoadmapRow {
+  key: string;
+  label: string;
+  projectKey?: string;
+  childCount: number;
+  doneCount: number;
+  totalPoints: number;
+  donePoints: number;
+  percentDone: number; // by story points, by issue count when nothing is estimated
+  remaining: number; // open work in the workspace unit
+  remainingHours: number;
+  isDone: boolean;
+  startDate: string; // ISO
+  finishDate?: string; // completion date when done, otherwise the forecast sprint's end
+  finishSprint: RoadmapSprint | null; // null when done, or when capacity never reaches it
+  targetDate?: string;
+  slips: boolean; // finishes after the target, or can't be forecast at all
+}
+
+interface RoadmapOptions {
+  timeOff?: TimeOffEntry[];
+  snapshots?: CapacitySnapshot[];
+  targets?: EpicTargets;
+}
+
+interface CapacitySlot {
+  sprint: RoadmapSprint;
+  cumulative: number; // capacity through the end of this sprint
+}
+
+const toRoadmapSprint = (sprint: Sprint, isProjected: boolean): RoadmapSprint => ({
+  id: sprint.id,
+  name: sprint.name,
+  startDate: sprint.startDate,
+  endDate: sprint.endDate,
+  isProjected
+});
+
+// Team capacity per upcoming sprint, known sprints first, then projected ones of the usual length
+// until the work is covered. The active sprint only has what its done work hasn't used up.
+const planCapacity = (
+  projectKey: string,
+  projectSprints: Sprint[],
+  issues: JiraIssue[],
+  team: TeamMember[],
+  unit: CapacityUnit,
+  workNeeded: number,
+  timeOff: TimeOffEntry[],
+  snapshots: CapacitySnapshot[],
+  now: number
+): CapacitySlot[] => {
+  const slots: CapacitySlot[] = [];
+  let cumulative = 0;
+
+  getOpenSprintOrder(projectSprints).forEach(sprint => {
+    let capacity = getTeamSprintCapacity(team, sprint, timeOff, snapshots);
+    if (sprint.state === 'active') {
+      const done = issues.filter(i => i.sprintId === sprint.id && i.status === Status.DONE);
+      capacity = Math.max(0, capacity - done.reduce((acc, i) => acc + getCommittedLoad(i, unit), 0));
+    }
+    cumulative += capacity;
+    slots.push({ sprint: toRoadmapSprint(sprint, false), cumulative });
+  });
+
+  const sprintDays = getSprintLengthDays(projectSprints);
+  let start = slots.length > 0 ? new Date(slots[slots.length - 1].sprint.endDate).getTime() : now;
+  for (let n = 1; cumulative < workNeeded && n <= MAX_PROJECTED_SPRINTS; n++) {
+    const end = start + sprintDays * DAY_MS;
+    const projected: Sprint = {
+      id: `projected-${projectKey}-${n}`,
+      name: `Projected +${n}`,
+      startDate: new Date(start).toISOString(),
+      endDate: new Date(end).toISOString(),
+      state: 'future',
+      projectKey: projectKey || undefined
+    };
+    cumulative += getTeamSprintCapacity(team, projected, timeOff, snapshots);
+    slots.push({ sprint: toRoadmapSprint(projected, true), cumulative });
+    start = end;
+  }
+
+  return slots;
+};
+
+// Every epic with its progress and the sprint team capacity finishes it in,
+// burning each project's backlog in sprint and priority order.
+export const buildEpicRoadmap = (
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  team: TeamMember[],
+  unit: CapacityUnit,
+  { timeOff = [], snapshots = [], targets = {} }: RoadmapOptions = {},
+  now: number = Date.now()
+): EpicRoadmapRow[] => {
+  const rows: EpicRoadmapRow[] = [];
+  const projectKeys = Array.from(new Set(issues.filter(i => getEpicKey(i)).map(i => i.projectKey || '')));
+
+  projectKeys.forEach(projectKey => {
+    const projectIssues = issues.filter(i => (i.projectKey || '') === projectKey);
+    const projectSprints = sprints.filter(s => (s.projectKey || '') === projectKey);
+    const sprintById = new Map(projectSprints.map(s => [s.id, s]));
+
+    const backlog = orderBacklog(projectIssues, projectSprints);
+    let running = 0;
+    const cumulativeAt = new Map(backlog.map(i => [i.key, (running += getIssueLoad(i, unit))]));
+
+    const epicKeys = Array.from(new Set(projectIssues.map(getEpicKey).filter((k): k is string => !!k)));
+    const epics = epicKeys.map(key => {
+      const children = projectIssues.filter(i => getEpicKey(i) === key);
+      const open = backlog.filter(i => getEpicKey(i) === key);
+      // Work ranked up to and including the epic's last open issue
+      const threshold = open.length > 0 ? cumulativeAt.get(open[open.length - 1].key) || 0 : 0;
+      return { key, children, open, threshold };
+    });
+
+    const workNeeded = Math.max(0, ...epics.filter(e => e.open.length > 0).map(e => e.threshold));
+    const slots = planCapacity(projectKey, projectSprints, projectIssues, team, unit, workNeeded, timeOff, snapshots, now);
+
+    epics.forEach(({ key, children, open, threshold }) => {
+      const done = children.filter(i => i.status === Status.DONE);
+      const totalPoints = children.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+      const donePoints = done.reduce((acc, i) => acc + (i.storyPoints || 0), 0);
+      const isDone = open.length === 0;
+
+      // Small epsilon so rounding in the capacity sums doesn't push an epic a sprint late
+      const finishSprint = isDone ? null : slots.find(s => s.cumulative >= threshold - 1e-6)?.sprint || null;
+      const completedDates = done.map(getCompletedAt).filter((d): d is string => !!d).sort();
+      const finishDate = isDone ? completedDates[completedDates.length - 1] : finishSprint?.endDate;
+
+      // Bars start when the epic's first sprint started, or when its first child was created
+      const starts = [
+        ...children.map(i => sprintById.get(i.sprintId || '')?.startDate),
+        ...children.map(i => i.createdAt)
+      ].filter((d): d is string => !!d).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+      const targetDate = targets[key];
+      rows.push({
+        key,
+        label: children[0].parentSummary || key,
+        projectKey: projectKey || undefined,
+        childCount: children.length,
+        doneCount: done.length,
+        totalPoints: round1(totalPoints),
+        donePoints: round1(donePoints),
+        percentDone: totalPoints > 0
+          ? Math.round((donePoints / totalPoints) * 100)
+          : Math.round((done.length / children.length) * 100),
+        remaining: round1(open.reduce((acc, i) => acc + getIssueLoad(i, unit), 0)),
+        remainingHours: round1(open.reduce((acc, i) => acc + getRemainingHours(i), 0)),
+        isDone,
+        startDate: starts[0] || finishDate || new Date(now).toISOString(),
+        finishDate,
+        finishSprint,
+        targetDate,
+        // Capacity never reaching the epic misses any target
+        slips: !!targetDate && (finishDate ? toDateKey(new Date(finishDate)) > targetDate : !isDone && !finishSprint)
+      });
+    });
+  });
+
+  // Soonest finish first; epics the team can't reach go last
+  const finishMs = (row: EpicRoadmapRow) => row.finishDate ? new Date(row.finishDate).getTime() : Infinity;
+  return rows.sort((a, b) => finishMs(a) - finishMs(b) || a.key.localeCompare(b.key, undefined, { numeric: true }));
+};
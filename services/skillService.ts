@@ -0,0 +1,123 @@
+import { JiraIssue, TeamMember, Sprint, Status, TimeOffEntry, CapacitySnapshot, CapacityUnit } from '../types';
+import { getMemberSprintCapacity, getIssueLoad, round1 } from './capacityService';
+
+// Label / component name -> skill. Tags without an entry match a team skill of the same name.
+export type SkillMappings = Record<string, string>;
+
+export interface SkillTag {
+  name: string;
+  kind: 'label' | 'component';
+  issueCount: number;
+}
+
+export interface SkillSprintCell {
+  demand: number; // load of the sprint's open issues needing the skill
+  supply: number; // sprint capacity of members holding the skill
+}
+
+export interface SkillMatrixRow {
+  skill: string;
+  holders: TeamMember[];
+  sprints: Record<string, SkillSprintCell>;
+  backlogDemand: number; // open issues not in any sprint
+  isBusFactor: boolean; // in demand and held by exactly one person
+  isGap: boolean; // in demand and held by nobody
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Every label and component seen on the issues, most used first
+export const getSkillTags = (issues: JiraIssue[]): SkillTag[] => {
+  const tags = new Map<string, SkillTag>();
+  const count = (name: string, kind: SkillTag['kind']) => {
+    const key = `${kind}:${name}`;
+    const tag = tags.get(key) || { name, kind, issueCount: 0 };
+    tags.set(key, { ...tag, issueCount: tag.issueCount + 1 });
+  };
+  issues.forEach(issue => {
+    (issue.labels || []).forEach(l => count(l, 'label'));
+    (issue.components || []).forEach(c => count(c, 'component'));
+  });
+  return Array.from(tags.values()).sort((a, b) => b.issueCount - a.issueCount || a.name.localeCompare(b.name));
+};
+
+// Skills held by anyone on the team, spelled as first entered
+export const getTeamSkills = (team: TeamMember[]): string[] => {
+  const skills = new Map<string, string>();
+  team.forEach(m => m.skills.forEach(s => {
+    if (!skills.has(normalize(s))) skills.set(normalize(s), s);
+  }));
+  return Array.from(skills.values()).sort((a, b) => a.localeCompare(b));
+};
+
+// Resolve one tag: an explicit mapping wins, otherwise a case-insensitive match on a team skill
+export const resolveTagSkill = (tag: string, mappings: SkillMappings, teamSkills: string[]): string | undefined => {
+  const mapped = mappings[tag];
+  if (mapped) return mapped;
+  return teamSkills.find(s => normalize(s) === normalize(tag));
+};
+
+export const getIssueSkills = (issue: JiraIssue, mappings: SkillMappings, teamSkills: string[]): string[] => {
+  const skills = [...(issue.labels || []), ...(issue.components || [])]
+    .map(tag => resolveTagSkill(tag, mappings, teamSkills))
+    .filter((s): s is string => !!s);
+  return Array.from(new Map(skills.map(s => [normalize(s), s])).values());
+};
+
+export const hasSkill = (member: TeamMember, skill: string) =>
+  member.skills.some(s => normalize(s) === normalize(skill));
+
+// Demand vs supply per skill and open sprint. An issue needing several skills counts in full for each.
+export const buildSkillMatrix = (
+  team: TeamMember[],
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  timeOff: TimeOffEntry[],
+  snapshots: CapacitySnapshot[],
+  mappings: SkillMappings,
+  unit: CapacityUnit
+): SkillMatrixRow[] => {
+  const teamSkills = getTeamSkills(team);
+  const openIssues = issues.filter(i => i.status !== Status.DONE);
+  const rows = new Map<string, SkillMatrixRow>();
+
+  const getRow = (skill: string) => {
+    const key = normalize(skill);
+    if (!rows.has(key)) {
+      rows.set(key, {
+        skill,
+        holders: team.filter(m => hasSkill(m, skill)),
+        sprints: Object.fromEntries(sprints.map(s => [s.id, { demand: 0, supply: 0 }])),
+        backlogDemand: 0,
+        isBusFactor: false,
+        isGap: false
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  teamSkills.forEach(getRow);
+
+  openIssues.forEach(issue => {
+    const load = getIssueLoad(issue, unit);
+    getIssueSkills(issue, mappings, teamSkills).forEach(skill => {
+      const row = getRow(skill);
+      const cell = issue.sprintId ? row.sprints[issue.sprintId] : undefined;
+      if (cell) cell.demand += load;
+      else if (!issue.sprintId) row.backlogDemand += load;
+    });
+  });
+
+  return Array.from(rows.values()).map(row => {
+    sprints.forEach(sprint => {
+      const cell = row.sprints[sprint.id];
+      cell.demand = round1(cell.demand);
+      cell.supply = Math.round(
+        row.holders.reduce((acc, m) => acc + getMemberSprintCapacity(m, sprint, timeOff, snapshots), 0) * 10
+      ) / 10;
+    });
+    row.backlogDemand = round1(row.backlogDemand);
+    const inDemand = row.backlogDemand > 0 || Object.values(row.sprints).some(c => c.demand > 0);
+    return { ...row, isBusFactor: inDemand && row.holders.length === 1, isGap: inDemand && row.holders.length === 0 };
+  }).sort((a, b) => Number(b.isGap) - Number(a.isGap) || Number(b.isBusFactor) - Number(a.isBusFactor) || a.skill.localeCompare(b.skill));
+};
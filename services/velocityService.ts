@@ -0,0 +1,79 @@
+import { JiraIssue, Sprint, Status, CapacityUnit } from '../types';
+import { getCommittedLoad, round1 } from './capacityService';
+
+// Closed sprints averaged for the rolling velocity
+export const VELOCITY_WINDOW = 3;
+
+export interface VelocityRange {
+  average: number;
+  min: number;
+  max: number;
+}
+
+export interface SprintVelocity extends VelocityRange {
+  sprintId: string;
+  name: string;
+  endDate: string;
+  completed: number; // done work left in the sprint, in the workspace unit
+  byMember: Record<string, number>;
+}
+
+export interface VelocitySummary extends VelocityRange {
+  history: SprintVelocity[]; // oldest first; average/min/max are the window ending at each sprint
+  sprintCount: number; // closed sprints in the latest window
+}
+
+export const summarizeRange = (values: number[]): VelocityRange => values.length === 0
+  ? { average: 0, min: 0, max: 0 }
+  : {
+    average: round1(values.reduce((acc, v) => acc + v, 0) / values.length),
+    min: round1(Math.min(...values)),
+    max: round1(Math.max(...values))
+  };
+
+// Done issues count toward the closed sprint they were last in
+export const getSprintVelocities = (
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  unit: CapacityUnit,
+  window = VELOCITY_WINDOW
+): SprintVelocity[] => {
+  const closed = sprints
+    .filter(s => s.state === 'closed')
+    .sort((a, b) => new Date(a.endDate).getTime() - new Date(b.endDate).getTime());
+
+  const completedBySprint = closed.map(sprint => {
+    const done = issues.filter(i => i.sprintId === sprint.id && i.status === Status.DONE);
+    const byMember: Record<string, number> = {};
+    done.forEach(i => {
+      if (i.assigneeId) byMember[i.assigneeId] = round1((byMember[i.assigneeId] || 0) + getCommittedLoad(i, unit));
+    });
+    return {
+      sprintId: sprint.id,
+      name: sprint.name,
+      endDate: sprint.endDate,
+      completed: round1(done.reduce((acc, i) => acc + getCommittedLoad(i, unit), 0)),
+      byMember
+    };
+  });
+
+  return completedBySprint.map((entry, idx) => ({
+    ...entry,
+    ...summarizeRange(completedBySprint.slice(Math.max(0, idx - window + 1), idx + 1).map(e => e.completed))
+  }));
+};
+
+export const getTeamVelocity = (
+  issues: JiraIssue[],
+  sprints: Sprint[],
+  unit: CapacityUnit,
+  window = VELOCITY_WINDOW
+): VelocitySummary => {
+  const history = getSprintVelocities(issues, sprints, unit, window);
+  const recent = history.slice(-window);
+  return { history, sprintCount: recent.length, ...summarizeRange(recent.map(h => h.completed)) };
+};
+
+// A member's completed work over the latest window of closed sprints
+export const getMemberVelocity = (history: SprintVelocity[], memberId: string, window = VELOCITY_WINDOW): VelocityRange =>
+  summarizeRange(history.slice(-window).map(h => h.byMember[memberId] || 0));
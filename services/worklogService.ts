@@ -0,0 +1,41 @@
+import { JiraIssue, Worklog } from '../types';
+
+export interface TimeEntry {
+  issue: JiraIssue;
+  authorId: string | null;
+  authorName?: string;
+  started?: string; // ISO timestamp, unknown when falling back to the issue total
+  seconds: number;
+}
+
+// Flatten logged time into per-author, per-day entries.
+// Issues without worklogs (mock data, manual imports) fall back to their total against the assignee.
+export const getTimeEntries = (issues: JiraIssue[], worklogs: Worklog[]): TimeEntry[] => {
+  const worklogsByIssue = new Map<string, Worklog[]>();
+  worklogs.forEach(w => {
+    const list = worklogsByIssue.get(w.issueId) || [];
+    list.push(w);
+    worklogsByIssue.set(w.issueId, list);
+  });
+
+  return issues.flatMap(issue => {
+    const issueWorklogs = worklogsByIssue.get(issue.id);
+
+    if (!issueWorklogs || issueWorklogs.length === 0) {
+      return issue.timeSpentSeconds > 0
+        ? [{ issue, authorId: issue.assigneeId, seconds: issue.timeSpentSeconds }]
+        : [];
+    }
+
+    return issueWorklogs.map(w => ({
+      issue,
+      authorId: w.authorId,
+      authorName: w.authorName,
+      started: w.started,
+      seconds: w.timeSpentSeconds
+    }));
+  });
+};
+
+// Calendar day of a worklog in the author's own timezone (Jira timestamps carry their offset)
+export const toDayKey = (started: string) => started.slice(0, 10);
@@ -20,6 +20,21 @@ export enum Status {
   DONE = 'Done'
 }
 
+export interface StatusTransition {
+  at: string; // ISO timestamp of the transition
+  from: Status | null;
+  to: Status;
+  fromName?: string; // raw Jira status names, so mapping edits can be re-applied
+  toName?: string;
+}
+
+// A change to an issue's Sprint field; an issue carried over keeps its old sprints in the list
+export interface SprintChange {
+  at: string;
+  from: string[]; // sprint ids before the change
+  to: string[];
+}
+
 export interface JiraIssue {
   id: string;
   key: string;
@@ -36,8 +51,33 @@ export interface JiraIssue {
   // Time Tracking Fields
   timeSpentSeconds: number;
   timeEstimateSeconds: number;
+  remainingEstimateSeconds?: number; // Jira's remaining estimate, when known
   parentKey?: string;
   parentSummary?: string;
+  parentType?: IssueType; // a sub-task's parent is a story, not an epic
+  // Skill signals, matched to TeamMember.skills through the workspace skill mapping
+  labels?: string[];
+  components?: string[];
+  // Flow History Fields
+  createdAt?: string;
+  resolvedAt?: string;
+  statusHistory?: StatusTransition[]; // oldest first
+  sprintHistory?: SprintChange[]; // oldest first
+  // Raw Jira names behind type / priority / status, re-mapped when the workflow mapping changes
+  jiraType?: string;
+  jiraPriority?: string;
+  jiraStatus?: string;
+}
+
+export interface Worklog {
+  id: string;
+  issueId: string;
+  authorId: string;
+  authorName: string;
+  started: string; // ISO timestamp of when the work was done
+  timeSpentSeconds: number;
+  comment?: string;
+  projectKey?: string;
 }
 
 export interface TeamMember {
@@ -45,8 +85,26 @@ export interface TeamMember {
   name: string;
   role: string;
   avatar: string;
-  capacityPerSprint: number; // in story points
+  capacityPerSprint: number; // in the workspace CapacityUnit, for a full two-week (10 working day) sprint
   skills: string[];
+  projectKeys?: string[]; // connected projects the member was synced from
+  allocations?: Record<string, number>; // percent of capacity per projectKey; unset splits evenly across projectKeys
+  isLocal?: boolean; // added by hand in JiraCap, not a Jira user
+  isContractor?: boolean;
+  archived?: boolean; // left the team: kept for history, hidden from planning
+}
+
+// Whether capacity and load are planned in story points or estimate hours
+export type CapacityUnit = 'points' | 'hours';
+
+// A day range someone is unavailable, dates inclusive (YYYY-MM-DD).
+// Entries without a memberId are team-wide holidays.
+export interface TimeOffEntry {
+  id: string;
+  memberId?: string;
+  startDate: string;
+  endDate: string;
+  label: string;
 }
 
 export interface Sprint {
@@ -56,13 +114,26 @@ export interface Sprint {
   endDate: string;
   state: 'active' | 'future' | 'closed';
   projectKey?: string;
+  boardId?: string;
 }
 
+export interface JiraBoard {
+  id: string;
+  name: string;
+  type: string; // 'scrum' | 'kanban' | 'simple'
+}
+
+// One record per member per sprint: a manual capacity override and/or the load captured while the sprint was active
 export interface CapacitySnapshot {
   memberId: string;
   sprintId: string;
   assignedPoints: number;
   utilization: number; // percentage 0-100+
+  capacity?: number; // effective capacity when captured
+  capacityOverride?: number; // replaces the working-day capacity for this sprint
+  capturedAt?: string; // set once the sprint has been active; records without it only hold an override
+  sprintName?: string; // kept so history survives the sprint dropping out of the sync window
+  sprintEndDate?: string;
 }
 
 export interface GeminiAnalysisResult {
@@ -72,12 +143,67 @@ export interface GeminiAnalysisResult {
   suggestedAllocations?: { issueKey: string; suggestedAssigneeId: string; reason: string }[];
 }
 
+// An assignee change to write back to Jira; null unassigns
+export interface AssignmentChange {
+  issueKey: string;
+  assigneeId: string | null;
+}
+
+// A drag-and-drop move in the planner: only the fields present change.
+// A null sprintId moves the issue back to the backlog.
+export interface IssueMove {
+  assigneeId?: string | null;
+  sprintId?: string | null;
+}
+
+export interface AssignmentResult {
+  issueKey: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Per-project translation of raw Jira names into the planner's enums
+export interface WorkflowMapping {
+  statuses: Record<string, Status>;
+  priorities: Record<string, Priority>;
+  issueTypes: Record<string, IssueType>;
+}
+
+export type JiraDeployment = 'cloud' | 'datacenter';
+
 export interface JiraConfig {
   domain: string;
-  email: string;
+  deployment?: JiraDeployment; // defaults to 'cloud'
+  email: string; // unused on Data Center, where apiToken is a personal access token
   apiToken: string;
   projectKey: string;
-  useProxy?: boolean;
+  useProxy?: boolean; // public CORS proxies, only used when proxyUrl is unset
+  proxyUrl?: string; // self-hosted proxy from `npm run proxy`, e.g. http://localhost:8787
+  maxIssues?: number; // upper bound on issues fetched per sync
+  storyPointsField?: string; // e.g. customfield_10016, detected per site
+  sprintField?: string; // e.g. customfield_10020, detected per site
+  boardIds?: string[]; // boards to pull sprints from; defaults to the project's first board
+  closedSprintHistory?: number; // how many recent closed sprints to load per board
+  workflowMapping?: WorkflowMapping; // seeded at connect time, editable in Settings
+}
+
+export interface JiraField {
+  id: string;
+  name: string;
+}
+
+export interface JiraFieldCandidates {
+  storyPoints: JiraField[];
+  sprint: JiraField[];
+}
+
+export interface IssueLoadSummary {
+  loaded: number;
+  total: number;
+}
+
+export interface SyncProgress extends IssueLoadSummary {
+  label: string; // current sync stage, e.g. "Loading issues"
 }
 
 export enum ViewMode {
@@ -86,5 +212,9 @@ export enum ViewMode {
   TEAM = 'TEAM',
   TIME_TRACKING = 'TIME_TRACKING',
   CLIENT_PROFITABILITY = 'CLIENT_PROFITABILITY',
+  CYCLE_TIME = 'CYCLE_TIME',
+  PORTFOLIO = 'PORTFOLIO',
+  SKILLS = 'SKILLS',
+  ROADMAP = 'ROADMAP',
   SETTINGS = 'SETTINGS'
 }